@@ -0,0 +1,22 @@
+// Tài khoản bị khoá tạm thời sau MAX_FAILED_LOGIN_ATTEMPTS lần nhập sai mật khẩu liên tiếp
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5
+export const ACCOUNT_LOCK_DURATION = 15 * 60 * 1000
+
+// Giới hạn số request trong mỗi khoảng windowMs (ms) theo địa chỉ IP và theo tài khoản
+export const RATE_LIMITS = {
+  LOGIN: {
+    windowMs: 15 * 60 * 1000,
+    maxPerIp: 30,
+    maxPerAccount: 10
+  },
+  FORGOT_PASSWORD: {
+    windowMs: 60 * 60 * 1000,
+    maxPerIp: 10,
+    maxPerAccount: 5
+  },
+  RESEND_EMAIL_VERIFY: {
+    windowMs: 60 * 60 * 1000,
+    maxPerIp: 10,
+    maxPerAccount: 5
+  }
+} as const
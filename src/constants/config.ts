@@ -28,6 +28,7 @@ export const ENV_CONFIG = {
   PORT: process.env.PORT as string,
   HOST: process.env.HOST as string,
   CLIENT_URL: process.env.CLIENT_URL as string,
+  TRUST_PROXY: process.env.TRUST_PROXY as string,
   PASSWORD_SECRET: process.env.PASSWORD_SECRET as string,
   STATIC_IMAGES_PATH: process.env.STATIC_IMAGES_PATH as string,
 
@@ -47,19 +48,57 @@ export const ENV_CONFIG = {
   DB_ORDERS_COLLECTION_NAME: process.env.DB_ORDERS_COLLECTION_NAME as string,
   DB_REVIEWS_COLLECTION_NAME: process.env.DB_REVIEWS_COLLECTION_NAME as string,
   DB_REVIEW_REPLIES_COLLECTION_NAME: process.env.DB_REVIEW_REPLIES_COLLECTION_NAME as string,
+  DB_VOUCHERS_COLLECTION_NAME: process.env.DB_VOUCHERS_COLLECTION_NAME as string,
+  DB_PAYMENTS_COLLECTION_NAME: process.env.DB_PAYMENTS_COLLECTION_NAME as string,
+  DB_ROLES_COLLECTION_NAME: process.env.DB_ROLES_COLLECTION_NAME as string,
+  DB_SETTINGS_COLLECTION_NAME: process.env.DB_SETTINGS_COLLECTION_NAME as string,
+  DB_JOBS_COLLECTION_NAME: process.env.DB_JOBS_COLLECTION_NAME as string,
+  DB_WISHLISTS_COLLECTION_NAME: process.env.DB_WISHLISTS_COLLECTION_NAME as string,
 
   JWT_ACCESS_TOKEN_SECRET: process.env.JWT_ACCESS_TOKEN_SECRET as string,
   JWT_REFRESH_TOKEN_SECRET: process.env.JWT_REFRESH_TOKEN_SECRET as string,
   JWT_VERIFY_EMAIL_TOKEN_SECRET: process.env.JWT_VERIFY_EMAIL_TOKEN_SECRET as string,
   JWT_FORGOT_PASSWORD_TOKEN_SECRET: process.env.JWT_FORGOT_PASSWORD_TOKEN_SECRET as string,
+  JWT_TWO_FACTOR_TOKEN_SECRET: process.env.JWT_TWO_FACTOR_TOKEN_SECRET as string,
+  JWT_OAUTH_STATE_TOKEN_SECRET: process.env.JWT_OAUTH_STATE_TOKEN_SECRET as string,
   JWT_ACCESS_TOKEN_EXPIRED_IN: process.env.JWT_ACCESS_TOKEN_EXPIRED_IN as string,
   JWT_REFRESH_TOKEN_EXPIRED_IN: process.env.JWT_REFRESH_TOKEN_EXPIRED_IN as string,
   JWT_VERIFY_EMAIL_TOKEN_EXPIRED_IN: process.env.JWT_VERIFY_EMAIL_TOKEN_EXPIRED_IN as string,
   JWT_FORGOT_PASSWORD_TOKEN_EXPIRED_IN: process.env.JWT_FORGOT_PASSWORD_TOKEN_EXPIRED_IN as string,
+  JWT_TWO_FACTOR_TOKEN_EXPIRED_IN: process.env.JWT_TWO_FACTOR_TOKEN_EXPIRED_IN as string,
+  JWT_OAUTH_STATE_TOKEN_EXPIRED_IN: process.env.JWT_OAUTH_STATE_TOKEN_EXPIRED_IN as string,
+  TOTP_ISSUER: process.env.TOTP_ISSUER as string,
 
   AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID as string,
   AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY as string,
   AWS_REGION: process.env.AWS_REGION as string,
   AWS_SES_FROM_ADDRESS: process.env.AWS_SES_FROM_ADDRESS as string,
-  AWS_S3_BUCKET_NAME: process.env.AWS_S3_BUCKET_NAME as string
+  AWS_S3_BUCKET_NAME: process.env.AWS_S3_BUCKET_NAME as string,
+
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT as string,
+  MAIL_FROM_ADDRESS: process.env.MAIL_FROM_ADDRESS as string,
+  SMTP_HOST: process.env.SMTP_HOST as string,
+  SMTP_PORT: process.env.SMTP_PORT as string,
+  SMTP_SECURE: process.env.SMTP_SECURE as string,
+  SMTP_USERNAME: process.env.SMTP_USERNAME as string,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD as string,
+
+  VNPAY_TMN_CODE: process.env.VNPAY_TMN_CODE as string,
+  VNPAY_HASH_SECRET: process.env.VNPAY_HASH_SECRET as string,
+  VNPAY_PAYMENT_URL: process.env.VNPAY_PAYMENT_URL as string,
+  VNPAY_RETURN_URL: process.env.VNPAY_RETURN_URL as string,
+  FAKE_PAYMENT_SECRET: process.env.FAKE_PAYMENT_SECRET as string,
+
+  GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID as string,
+  GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET as string,
+  GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI as string,
+  GOOGLE_AUTHORIZATION_URL: process.env.GOOGLE_AUTHORIZATION_URL as string,
+  GOOGLE_TOKEN_URL: process.env.GOOGLE_TOKEN_URL as string,
+  GOOGLE_USER_INFO_URL: process.env.GOOGLE_USER_INFO_URL as string,
+  FACEBOOK_CLIENT_ID: process.env.FACEBOOK_CLIENT_ID as string,
+  FACEBOOK_CLIENT_SECRET: process.env.FACEBOOK_CLIENT_SECRET as string,
+  FACEBOOK_REDIRECT_URI: process.env.FACEBOOK_REDIRECT_URI as string,
+  FACEBOOK_AUTHORIZATION_URL: process.env.FACEBOOK_AUTHORIZATION_URL as string,
+  FACEBOOK_TOKEN_URL: process.env.FACEBOOK_TOKEN_URL as string,
+  FACEBOOK_USER_INFO_URL: process.env.FACEBOOK_USER_INFO_URL as string
 } as const
@@ -2,3 +2,4 @@ import path from 'path'
 
 export const UPLOAD_IMAGE_DIR = path.resolve('uploads/images')
 export const UPLOAD_VIDEO_DIR = path.resolve('uploads/videos')
+export const MAIL_OUTBOX_DIR = path.resolve('outbox')
@@ -81,7 +81,9 @@ export enum TokenType {
   Access,
   Refresh,
   VerifyEmail,
-  ForgotPassword
+  ForgotPassword,
+  TwoFactor,
+  OAuthState
 }
 
 export enum UserVerifyStatus {
@@ -109,6 +111,14 @@ export enum ProductDiscountType {
   Percent
 }
 
+export enum ProductSortBy {
+  Newest = 'newest',
+  PriceAsc = 'price_asc',
+  PriceDesc = 'price_desc',
+  BestSelling = 'best_selling',
+  TopRated = 'top_rated'
+}
+
 export enum CartItemStatus {
   InCart,
   NotInCart
@@ -121,3 +131,70 @@ export enum OrderStatus {
   Accomplished,
   Cancelled
 }
+
+export enum VoucherDiscountType {
+  Money,
+  Percent
+}
+
+export enum VoucherStatus {
+  Active,
+  Inactive
+}
+
+export enum PaymentMethod {
+  Cod,
+  VnPay,
+  Fake
+}
+
+export enum PaymentStatus {
+  Pending,
+  Paid,
+  Failed,
+  Cancelled,
+  // Cổng thanh toán báo đã thu tiền cho lượt thanh toán đã bị huỷ, cần hoàn tiền cho người dùng
+  RefundRequired
+}
+
+export enum Permission {
+  ProductsRead = 'products:read',
+  ProductsWrite = 'products:write',
+  CategoriesWrite = 'categories:write',
+  BrandsWrite = 'brands:write',
+  OrdersRead = 'orders:read',
+  OrdersUpdateStatus = 'orders:update-status',
+  OrdersDelete = 'orders:delete',
+  ReviewsReply = 'reviews:reply',
+  VouchersRead = 'vouchers:read',
+  VouchersWrite = 'vouchers:write',
+  UsersRead = 'users:read',
+  UsersWrite = 'users:write',
+  RolesManage = 'roles:manage',
+  SettingsManage = 'settings:manage',
+  JobsManage = 'jobs:manage'
+}
+
+export enum SocialProvider {
+  Google = 'google',
+  Facebook = 'facebook'
+}
+
+export enum MailTransportType {
+  Ses = 'ses',
+  Smtp = 'smtp',
+  File = 'file',
+  Memory = 'memory'
+}
+
+export enum JobType {
+  SendEmail = 'send-email',
+  ProcessImage = 'process-image'
+}
+
+export enum JobStatus {
+  Pending,
+  Processing,
+  Completed,
+  Failed
+}
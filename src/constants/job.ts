@@ -0,0 +1,20 @@
+// Worker lấy job mới sau mỗi khoảng JOB_POLL_INTERVAL (ms) khi hàng đợi trống
+export const JOB_POLL_INTERVAL = 5 * 1000
+
+export const JOB_MAX_ATTEMPTS = 5
+
+// Thời gian chờ trước lần chạy lại thứ n là JOB_RETRY_BASE_DELAY * 2^(n - 1), tối đa JOB_RETRY_MAX_DELAY
+export const JOB_RETRY_BASE_DELAY = 30 * 1000
+export const JOB_RETRY_MAX_DELAY = 60 * 60 * 1000
+
+// Job ở trạng thái Processing quá lâu được xem là worker đã dừng giữa chừng và được chạy lại
+export const JOB_LOCK_TIMEOUT = 10 * 60 * 1000
+
+// Job đã hoàn thành được MongoDB tự xoá sau thời gian này (giây)
+export const COMPLETED_JOB_RETENTION = 7 * 24 * 60 * 60
+
+// Job thất bại được giữ lại để quản trị viên kiểm tra và chạy lại, sau thời gian này (giây) thì bị xoá
+export const FAILED_JOB_RETENTION = 14 * 24 * 60 * 60
+
+// Các trường trong payload có tên khớp với biểu thức này bị ẩn khi trả về cho quản trị viên
+export const JOB_SENSITIVE_FIELD_REGEX = /token/i
@@ -3,7 +3,12 @@ export const GENERAL_MESSAGES = {
   PAGE_MUST_BE_A_INTEGER_AND_POSITIVE: 'Page must be a positive integer.',
   LIMIT_MUST_BE_A_INTEGER_AND_POSITIVE: 'Limit must be a positive integer.',
   PHOTOS_MUST_BE_AN_ARRAY: 'Photos must be an array.',
-  PHOTOS_MUST_BE_AN_ARRAY_OBJECTID: 'Photos must be an array of objectIds.'
+  PHOTOS_MUST_BE_AN_ARRAY_OBJECTID: 'Photos must be an array of objectIds.',
+  TOO_MANY_REQUESTS: 'Too many requests, please try again later.',
+  ENTITY_IS_REFERENCED: 'This item is still referenced by other data, use force=true to delete it anyway.',
+  FORCE_MUST_BE_A_BOOLEAN: 'Force must be true or false.',
+  ID_IS_INVALID: 'Invalid id.',
+  ITEM_NOT_FOUND_IN_TRASH: 'Item not found in trash.'
 } as const
 
 export const USER_MESSAGES = {
@@ -12,6 +17,8 @@ export const USER_MESSAGES = {
   EMAIL_IS_INVALID: 'Email is invalid.',
   EMAIL_ALREADY_EXISTS: 'Email already exists.',
   ACCESS_TOKEN_IS_REQUIRED: 'Access token is required.',
+  ACCESS_TOKEN_IS_REVOKED: 'Access token has been revoked, please log in again.',
+  ACCOUNT_IS_TEMPORARILY_LOCKED: 'Account is temporarily locked due to too many failed login attempts.',
   RESEND_EMAIL_VERIFY_USER_SUCCESS: 'Resend the user verification email successfully.',
   EMAIL_DOES_NOT_EXIST: `Email doesn't exist on the system.`,
   PASSWORD_LENGTH_IS_INVALID: 'Password must be between 8 and 32 characters long.',
@@ -43,15 +50,90 @@ export const USER_MESSAGES = {
   PHONE_NUMBER_IS_INVALID: 'Invalid phone number.',
   PHONE_NUMBER_ALREADY_EXISTS: 'Phone number already exists.',
   AVATAR_IS_INVALID: 'Invalid avatar.',
+  RECEIVE_NOTIFICATION_EMAILS_MUST_BE_A_BOOLEAN: 'Receive notification emails must be a boolean.',
   USER_IS_UNVERIFIED: 'Your account has not been verified.',
   PERMISSION_DENIED: 'Permission denied.',
-  GET_ALL_CUSTOMERS_SUCCESS: 'Get a list of all successful customers.'
+  GET_ALL_CUSTOMERS_SUCCESS: 'Get a list of all successful customers.',
+  USER_ID_IS_REQUIRED: 'User id is required.',
+  USER_ID_IS_INVALID: 'Invalid user id.',
+  USER_NOT_FOUND: 'User not found.',
+  USER_STATUS_IS_REQUIRED: 'User status is required.',
+  USER_STATUS_IS_INVALID: 'Invalid user status.',
+  USER_ROLE_IS_REQUIRED: 'User role is required.',
+  USER_ROLE_IS_INVALID: 'Invalid user role.',
+  CAN_NOT_UPDATE_YOURSELF: 'You can not change the status or role of your own account.',
+  ONLY_ADMIN_CAN_UPDATE_ADMIN: 'Only an admin can change the status or role of an admin account.',
+  KEYWORD_MUST_BE_A_STRING: 'Keyword must be a string.',
+  UPDATE_USER_STATUS_SUCCESS: 'Updated user status successfully.',
+  UPDATE_USER_ROLE_SUCCESS: 'Updated user role successfully.',
+  GET_CUSTOMER_SUCCESS: 'Get customer successfully.',
+  REFRESH_TOKEN_IS_REUSED: 'Refresh token has already been used, the session has been revoked.',
+  SESSION_ID_IS_INVALID: 'Invalid session id.',
+  SESSION_NOT_FOUND: 'Session not found.',
+  GET_SESSIONS_SUCCESS: 'Get sessions successfully.',
+  REVOKE_SESSION_SUCCESS: 'Revoke session successfully.',
+  TWO_FACTOR_TOKEN_IS_REQUIRED: 'Two-factor token is required.',
+  TWO_FACTOR_CODE_IS_REQUIRED: 'Two-factor code is required.',
+  TWO_FACTOR_CODE_IS_INVALID: 'Two-factor code is invalid.',
+  TWO_FACTOR_IS_REQUIRED: 'Two-factor authentication is required, please enter the code from your authenticator app.',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled.',
+  TWO_FACTOR_IS_NOT_ENABLED: 'Two-factor authentication is not enabled.',
+  TWO_FACTOR_IS_NOT_ENROLLED: 'Two-factor authentication has not been enrolled.',
+  TWO_FACTOR_SETUP_REQUIRED: 'Administrators must enable two-factor authentication to use this feature.',
+  TWO_FACTOR_CAN_NOT_BE_DISABLED: 'Two-factor authentication is required for administrators and can not be disabled.',
+  REQUIRE_ADMIN_TWO_FACTOR_MUST_BE_A_BOOLEAN: 'Require admin two-factor must be a boolean.',
+  ENROLL_TWO_FACTOR_SUCCESS: 'Enrolled two-factor authentication, please verify the code to enable it.',
+  ENABLE_TWO_FACTOR_SUCCESS: 'Enabled two-factor authentication successfully.',
+  DISABLE_TWO_FACTOR_SUCCESS: 'Disabled two-factor authentication successfully.',
+  UPDATE_TWO_FACTOR_POLICY_SUCCESS: 'Updated two-factor policy successfully.',
+  OAUTH_PROVIDER_IS_INVALID: 'Invalid login provider.',
+  OAUTH_CODE_IS_REQUIRED: 'Authorization code is required.',
+  OAUTH_STATE_IS_REQUIRED: 'State is required.',
+  OAUTH_STATE_IS_INVALID: 'State is invalid or has expired.',
+  OAUTH_NONCE_IS_REQUIRED: 'Nonce is required.',
+  OAUTH_LOGIN_FAILED: 'Could not log in with this provider, please try again.',
+  OAUTH_EMAIL_IS_NOT_VERIFIED: 'The email of this account has not been verified by the provider.',
+  GET_OAUTH_URL_SUCCESS: 'Get login url successfully.'
+} as const
+
+export const ROLE_MESSAGES = {
+  ROLE_ID_IS_REQUIRED: 'Role id is required.',
+  ROLE_ID_IS_INVALID: 'Invalid role id.',
+  ROLE_NOT_FOUND: 'Role not found.',
+  ROLE_NAME_IS_REQUIRED: 'Role name is required.',
+  ROLE_NAME_ALREADY_EXISTS: 'Role name already exists.',
+  PERMISSIONS_MUST_BE_AN_ARRAY: 'Permissions must be an array.',
+  PERMISSION_IS_INVALID: 'Invalid permission.',
+  ROLE_IDS_MUST_BE_AN_ARRAY: 'Role ids must be an array.',
+  CREATE_ROLE_SUCCESS: 'Create role successfully.',
+  UPDATE_ROLE_SUCCESS: 'Update role successfully.',
+  DELETE_ROLE_SUCCESS: 'Delete role successfully.',
+  GET_ALL_ROLES_SUCCESS: 'Get all roles successfully.',
+  GET_ROLE_SUCCESS: 'Get role successfully.',
+  GET_ALL_PERMISSIONS_SUCCESS: 'Get all permissions successfully.',
+  ASSIGN_ROLES_SUCCESS: 'Assign roles to user successfully.',
+  CAN_NOT_UPDATE_OWN_ROLE: 'You can not update a role that is assigned to you.',
+  CAN_NOT_GRANT_MISSING_PERMISSIONS: 'You can not grant permissions that you do not have.'
+} as const
+
+export const JOB_MESSAGES = {
+  JOB_ID_IS_REQUIRED: 'Job id is required.',
+  JOB_ID_IS_INVALID: 'Invalid job id.',
+  JOB_NOT_FOUND: 'Job not found.',
+  JOB_IS_NOT_FAILED: 'Only failed jobs can be retried.',
+  GET_FAILED_JOBS_SUCCESS: 'Get failed jobs successfully.',
+  RETRY_JOB_SUCCESS: 'Job has been queued for retry.'
 } as const
 
 export const FILE_MESSAGES = {
   IMAGE_FILE_TYPE_INVALID: 'Invalid image file type.',
   IMAGE_FIELD_IS_REQUIRED: 'Image field is required.',
-  UPLOAD_IMAGE_SUCCESS: 'Image uploaded successfully.'
+  UPLOAD_IMAGE_SUCCESS: 'Image uploaded successfully.',
+  DELETE_FILE_SUCCESS: 'File deleted successfully.',
+  FILE_ID_IS_REQUIRED: 'File id is required.',
+  FILE_ID_IS_INVALID: 'Invalid file id.',
+  FILE_NOT_FOUND: 'File not found.',
+  FILE_IS_USED_AS_PRODUCT_THUMBNAIL: 'File is used as a product thumbnail and can not be deleted.'
 } as const
 
 export const ADDRESS_MESSAGES = {
@@ -95,6 +177,15 @@ export const PRODUCT_MESSAGES = {
   PRODUCT_CATEGORY_ID_IS_INVALID: 'Invalid product category id.',
   PRODUCT_CATEGORY_NOT_FOUND: 'Product category not found.',
   GET_ALL_CATEGORIES_SUCCESS: 'Get the list of all categories successfully.',
+  GET_CATEGORY_TREE_SUCCESS: 'Get the category tree successfully.',
+  PRODUCT_CATEGORY_PARENT_ID_IS_INVALID: 'Invalid parent category id.',
+  PRODUCT_CATEGORY_PARENT_NOT_FOUND: 'Parent category not found.',
+  PRODUCT_CATEGORY_PARENT_CAN_NOT_BE_ITSELF_OR_DESCENDANT:
+    'A category can not be moved under itself or one of its subcategories.',
+  PRODUCT_CATEGORY_SLUG_IS_INVALID: 'Category slug may only contain lowercase letters, numbers and hyphens.',
+  PRODUCT_CATEGORY_SLUG_ALREADY_EXISTS: 'Category slug already exists.',
+  PRODUCT_CATEGORY_ORDER_MUST_BE_AN_INT_GREATER_THAN_OR_EQUAL_ZERO:
+    'Category order must be an integer greater than or equal zero.',
   CREATE_BRAND_SUCCESS: 'Create a successful brand.',
   UPDATE_BRAND_SUCCESS: 'Brand update successful.',
   DELETE_BRAND_SUCCESS: 'Deleted brand successful.',
@@ -124,6 +215,15 @@ export const PRODUCT_MESSAGES = {
   PRODUCT_ID_IS_INVALID: 'Invalid product id.',
   PRODUCT_NOT_FOUND: 'Product not found.',
   DELETE_PRODUCT_SUCCESS: 'Product deletion successful.',
+  GET_DELETED_PRODUCTS_SUCCESS: 'Get deleted products successfully.',
+  RESTORE_PRODUCT_SUCCESS: 'Restore product successfully.',
+  GET_DELETED_BRANDS_SUCCESS: 'Get deleted brands successfully.',
+  RESTORE_BRAND_SUCCESS: 'Restore brand successfully.',
+  GET_DELETED_CATEGORIES_SUCCESS: 'Get deleted product categories successfully.',
+  RESTORE_PRODUCT_CATEGORY_SUCCESS: 'Restore product category successfully.',
+  PRODUCT_BRAND_IS_DELETED: 'The brand of this product has been deleted, restore it first.',
+  PRODUCT_CATEGORY_IS_DELETED: 'The category of this product has been deleted, restore it first.',
+  PRODUCT_CATEGORY_PARENT_IS_DELETED: 'The parent of this category has been deleted, restore it first.',
   GET_PRODUCTS_SUCCESS: 'Get the product list successfully.',
   PRODUCT_DISCOUNT_VALUE_CAN_NOT_BE_GREATER_THAN_ORIGINAL_PRICE:
     'Product discount value can not be greater than original price.',
@@ -132,7 +232,35 @@ export const PRODUCT_MESSAGES = {
   GET_BRAND_SUCCESS: 'Get a successful brand.',
   GET_PRODUCT_SUCCESS: 'Retrieve product information successfully.',
   PRODUCT_STATUS_TYPE_IS_INVALID: 'Invalid product status type.',
-  GET_ALL_PRODUCTS_SUCCESS: 'Get a list of all successful products.'
+  GET_ALL_PRODUCTS_SUCCESS: 'Get a list of all successful products.',
+  PRICE_FILTER_IS_INVALID: 'Price filter must be a number greater than or equal zero.',
+  MIN_PRICE_CAN_NOT_BE_GREATER_THAN_MAX_PRICE: 'Minimum price can not be greater than maximum price.',
+  MIN_STAR_POINT_IS_INVALID: 'Minimum star point must be a number between 1 and 5.',
+  IN_STOCK_IS_INVALID: 'In stock filter must be true or false.',
+  SORT_BY_IS_INVALID: 'Invalid sort option.',
+  CREATE_COLOR_SUCCESS: 'Create color successfully.',
+  UPDATE_COLOR_SUCCESS: 'Update color successfully.',
+  DELETE_COLOR_SUCCESS: 'Delete color successfully.',
+  GET_ALL_COLORS_SUCCESS: 'Get all colors successfully.',
+  GET_COLOR_SUCCESS: 'Get color successfully.',
+  COLOR_ID_IS_REQUIRED: 'Color id is required.',
+  COLOR_ID_IS_INVALID: 'Invalid color id.',
+  COLOR_NOT_FOUND: 'Color not found.',
+  COLOR_NAME_IS_REQUIRED: 'Color name is required.',
+  COLOR_HEX_CODE_IS_INVALID: 'Color hex code must be in the format #RRGGBB.',
+  COLOR_IS_IN_USE: 'Color is used by some product variants.',
+  PRODUCT_VARIANTS_MUST_BE_AN_ARRAY: 'Product variants must be an array.',
+  PRODUCT_VARIANT_ID_IS_INVALID: 'Invalid product variant id.',
+  PRODUCT_VARIANT_NOT_FOUND: 'Product variant not found.',
+  PRODUCT_VARIANT_SKU_IS_REQUIRED: 'Product variant SKU is required.',
+  PRODUCT_VARIANT_SKU_MUST_BE_UNIQUE: 'Product variant SKUs must be unique.',
+  PRODUCT_VARIANT_SKU_ALREADY_EXISTS: 'Product variant SKU already exists.',
+  PRODUCT_VARIANT_ATTRIBUTES_MUST_BE_UNIQUE: 'Each product variant must have a different color and size.',
+  PRODUCT_VARIANT_SIZE_MUST_BE_A_STRING: 'Product variant size must be a string.',
+  PRODUCT_VARIANT_PRICE_MUST_BE_AN_INT_GREATER_THAN_ZERO: 'Product variant price must be an integer greater than zero.',
+  PRODUCT_VARIANT_AVAILABLE_COUNT_MUST_BE_AN_INT_GREATER_THAN_OR_EQUAL_ZERO:
+    'Product variant available count must be an integer greater than or equal zero.',
+  PRODUCT_VARIANT_ID_IS_REQUIRED: 'Please choose a variant of this product.'
 } as const
 
 export const CART_MESSAGES = {
@@ -148,15 +276,52 @@ export const CART_MESSAGES = {
   DELETE_ALL_CART_SUCCESS: 'Successfully deleted all products in the cart.',
   GET_CART_ITEMS_SUCCESS: 'Get cart items successfully.',
   ORDER_SUCCESS: 'Order success.',
-  TOTAL_AMOUNT_REDUCED_IS_REQUIRED: 'Total amount reduced is required.',
-  TOTAL_AMOUNT_REDUCED_MUST_BE_AN_INT: 'Total amount reduced must be an integer.',
-  TOTAL_AMOUNT_REDUCED_MUST_BE_GREATER_THAN_OR_EQUAL_ZERO: 'Total amount reduced must be greater than or equal zero.',
-  TOTAL_AMOUNT_REDUCED_MUST_BE_LESS_THAN_TOTAL_AMOUNT: 'Total amount reduced must be less than total amount.',
-  CART_IS_EMPTY: 'Cart is empty.'
+  CART_IS_EMPTY: 'Cart is empty.',
+  QUANTITY_EXCEEDS_AVAILABLE_COUNT: 'Quantity exceeds the available count of the product.',
+  OUT_OF_STOCK: 'Some products in the cart are out of stock.',
+  CART_ITEM_VARIANT_IS_UNAVAILABLE: 'Some product variants in the cart are no longer available, please remove them.',
+  SHIPPING_ADDRESS_IS_REQUIRED: 'Shipping address is required, please choose one or set a default address.'
+} as const
+
+export const WISHLIST_MESSAGES = {
+  ADD_TO_WISHLIST_SUCCESS: 'Added product to wishlist successfully.',
+  REMOVE_FROM_WISHLIST_SUCCESS: 'Removed product from wishlist successfully.',
+  GET_WISHLIST_SUCCESS: 'Get wishlist successfully.'
 } as const
 
 export const VOUCHER_MESSAGES = {
-  VOUCHER_ID_IS_INVALID: 'Invalid voucher id.'
+  VOUCHER_ID_IS_REQUIRED: 'Voucher id is required.',
+  VOUCHER_ID_IS_INVALID: 'Invalid voucher id.',
+  VOUCHER_NOT_FOUND: 'Voucher not found.',
+  VOUCHER_CODE_IS_REQUIRED: 'Voucher code is required.',
+  VOUCHER_CODE_ALREADY_EXISTS: 'Voucher code already exists.',
+  VOUCHER_DISCOUNT_TYPE_IS_INVALID: 'Invalid voucher discount type.',
+  VOUCHER_DISCOUNT_VALUE_IS_REQUIRED: 'Voucher discount value is required.',
+  VOUCHER_DISCOUNT_VALUE_MUST_BE_AN_INT: 'Voucher discount value must be an integer.',
+  VOUCHER_DISCOUNT_VALUE_MUST_BE_GREATER_THAN_ZERO: 'Voucher discount value must be greater than zero.',
+  VOUCHER_DISCOUNT_VALUE_CAN_NOT_BE_GREATER_THAN_100: 'Voucher discount value can not be greater than 100.',
+  VOUCHER_MIN_ORDER_VALUE_MUST_BE_AN_INT: 'Voucher min order value must be an integer.',
+  VOUCHER_MIN_ORDER_VALUE_MUST_BE_GREATER_THAN_OR_EQUAL_ZERO:
+    'Voucher min order value must be greater than or equal zero.',
+  VOUCHER_MAX_DISCOUNT_MUST_BE_AN_INT: 'Voucher max discount must be an integer.',
+  VOUCHER_MAX_DISCOUNT_MUST_BE_GREATER_THAN_ZERO: 'Voucher max discount must be greater than zero.',
+  VOUCHER_USAGE_LIMIT_MUST_BE_AN_INT: 'Voucher usage limit must be an integer.',
+  VOUCHER_USAGE_LIMIT_MUST_BE_GREATER_THAN_ZERO: 'Voucher usage limit must be greater than zero.',
+  VOUCHER_STATUS_IS_INVALID: 'Invalid voucher status.',
+  VOUCHER_STARTS_AT_IS_INVALID: 'Voucher start time must be an ISO8601 date.',
+  VOUCHER_EXPIRES_AT_IS_INVALID: 'Voucher expiry time must be an ISO8601 date.',
+  VOUCHER_EXPIRES_AT_MUST_BE_AFTER_STARTS_AT: 'Voucher expiry time must be after its start time.',
+  VOUCHER_IS_INACTIVE: 'Voucher is inactive.',
+  VOUCHER_IS_NOT_STARTED: 'Voucher is not yet valid.',
+  VOUCHER_IS_EXPIRED: 'Voucher has expired.',
+  VOUCHER_USAGE_LIMIT_REACHED: 'Voucher usage limit has been reached.',
+  VOUCHER_USAGE_LIMIT_PER_USER_REACHED: 'You have used this voucher the maximum number of times.',
+  VOUCHER_MIN_ORDER_VALUE_NOT_REACHED: 'Order value does not reach the minimum value of the voucher.',
+  CREATE_VOUCHER_SUCCESS: 'Voucher created successfully.',
+  UPDATE_VOUCHER_SUCCESS: 'Voucher updated successfully.',
+  DELETE_VOUCHER_SUCCESS: 'Voucher deleted successfully.',
+  GET_ALL_VOUCHERS_SUCCESS: 'Get all vouchers successfully.',
+  GET_VOUCHER_SUCCESS: 'Get voucher successfully.'
 } as const
 
 export const ORDER_MESSAGES = {
@@ -170,7 +335,25 @@ export const ORDER_MESSAGES = {
   UPDATE_ORDER_STATUS_SUCCESS: 'Update order status successfully.',
   ORDER_STATUS_IS_REQUIRED: 'Order status is required.',
   ORDER_STATUS_IS_INVALID: 'Invalid order status.',
-  DELETE_ORDER_SUCCESS: 'Order deleted successfully.'
+  DELETE_ORDER_SUCCESS: 'Order deleted successfully.',
+  GET_DELETED_ORDERS_SUCCESS: 'Get deleted orders successfully.',
+  RESTORE_ORDER_SUCCESS: 'Restore order successfully.',
+  ORDER_STATUS_TRANSITION_IS_INVALID: 'The order cannot be moved from its current status to the requested status.',
+  NOTE_MUST_BE_A_STRING: 'Note must be a string.',
+  GET_ORDER_SUCCESS: 'Get order successfully.',
+  ORDER_IS_NOT_PAID: 'The order has not been paid yet.'
+} as const
+
+export const PAYMENT_MESSAGES = {
+  PAYMENT_METHOD_IS_INVALID: 'Invalid payment method.',
+  PAYMENT_METHOD_IS_NOT_AVAILABLE: 'This payment method is not available.',
+  PAYMENT_PROVIDER_IS_INVALID: 'Invalid payment provider.',
+  PAYMENT_SIGNATURE_IS_INVALID: 'Invalid payment signature.',
+  PAYMENT_NOT_FOUND: 'Payment not found.',
+  PAYMENT_AMOUNT_IS_INVALID: 'The paid amount does not match the payment amount.',
+  ORDER_CAN_NOT_BE_PAID: 'This order can not be paid online.',
+  CREATE_PAYMENT_SUCCESS: 'Create payment successfully.',
+  HANDLE_PAYMENT_CALLBACK_SUCCESS: 'Handle payment callback successfully.'
 } as const
 
 export const REVIEW_MESSAGES = {
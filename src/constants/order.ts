@@ -0,0 +1,13 @@
+import { OrderStatus } from '~/constants/enum'
+
+// Các trạng thái đơn hàng có thể chuyển tới từ mỗi trạng thái
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.WaitForConfirmation]: [OrderStatus.Confirmed, OrderStatus.Cancelled],
+  [OrderStatus.Confirmed]: [OrderStatus.BeingTransported, OrderStatus.Cancelled],
+  [OrderStatus.BeingTransported]: [OrderStatus.Accomplished],
+  [OrderStatus.Accomplished]: [],
+  [OrderStatus.Cancelled]: []
+}
+
+// Email của các trạng thái này luôn được gửi, email của các trạng thái còn lại được gửi khi người dùng bật receiveNotificationEmails
+export const ESSENTIAL_ORDER_EMAIL_STATUSES = [OrderStatus.WaitForConfirmation, OrderStatus.Cancelled]
@@ -1 +1,5 @@
 export const VIET_NAM_PHONE_NUMBER_REGEX = /(03|05|07|08|09|01[2|6|8|9])+([0-9]{8})\b/
+
+export const HEX_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/
+
+export const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
@@ -0,0 +1,4 @@
+// Bản ghi nằm trong thùng rác quá TRASH_RETENTION (ms) sẽ bị xoá vĩnh viễn
+export const TRASH_RETENTION = 30 * 24 * 60 * 60 * 1000
+
+export const TRASH_PURGE_INTERVAL = 60 * 60 * 1000
@@ -18,6 +18,7 @@ export const addToCartController = async (req: Request<ProductIdReqParams, any,
   const { userId } = req.decodedAuthorization as TokenPayload
   const result = await cartItemService.addToCart({
     productId: req.params.productId,
+    variantId: req.body.variantId,
     quantity: req.body.quantity,
     userId
   })
@@ -66,7 +67,7 @@ export const getCartItemsController = async (
 
 export const checkoutController = async (req: Request<ParamsDictionary, any, CheckoutReqBody>, res: Response) => {
   const { userId } = req.decodedAuthorization as TokenPayload
-  const result = await cartItemService.checkout({ userId, dto: req.body })
+  const result = await cartItemService.checkout({ userId, dto: req.body, ipAddress: req.ip || '' })
   return res.json({
     message: CART_MESSAGES.ORDER_SUCCESS,
     data: result
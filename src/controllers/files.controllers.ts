@@ -1,6 +1,8 @@
 import { Request, Response } from 'express'
 
 import { FILE_MESSAGES } from '~/constants/message'
+import { DeleteReqQuery } from '~/models/requests/Common.requests'
+import { FileIdReqParams } from '~/models/requests/File.requests'
 import { TokenPayload } from '~/models/requests/User.requests'
 import fileService from '~/services/files.services'
 import { sendFileFromS3 } from '~/utils/s3'
@@ -14,6 +16,14 @@ export const uploadImageController = async (req: Request, res: Response) => {
   })
 }
 
+export const deleteFileController = async (req: Request<FileIdReqParams, any, any, DeleteReqQuery>, res: Response) => {
+  const result = await fileService.deleteFile({ fileId: req.params.fileId, force: req.query.force === 'true' })
+  return res.json({
+    message: FILE_MESSAGES.DELETE_FILE_SUCCESS,
+    data: result
+  })
+}
+
 export const serveImageController = (req: Request, res: Response) => {
   const { name } = req.params
   sendFileFromS3(res, `images/${name}`)
@@ -0,0 +1,29 @@
+import { Request, Response } from 'express'
+import { ParamsDictionary } from 'express-serve-static-core'
+
+import { JOB_MESSAGES } from '~/constants/message'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { JobIdReqParams } from '~/models/requests/Job.requests'
+import jobService from '~/services/jobs.services'
+
+export const getFailedJobsController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { jobs, ...pagination } = await jobService.getFailed(req.query)
+  return res.json({
+    message: JOB_MESSAGES.GET_FAILED_JOBS_SUCCESS,
+    data: {
+      jobs,
+      pagination
+    }
+  })
+}
+
+export const retryJobController = async (req: Request<JobIdReqParams>, res: Response) => {
+  const result = await jobService.retry(req.params.jobId)
+  return res.json({
+    message: JOB_MESSAGES.RETRY_JOB_SUCCESS,
+    data: result
+  })
+}
@@ -3,7 +3,7 @@ import { ParamsDictionary } from 'express-serve-static-core'
 
 import { ORDER_MESSAGES } from '~/constants/message'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
-import { OrderIdReqParams, UpdateOrderStatusReqBody } from '~/models/requests/Order.requests'
+import { CancelOrderReqBody, OrderIdReqParams, UpdateOrderStatusReqBody } from '~/models/requests/Order.requests'
 import { TokenPayload } from '~/models/requests/User.requests'
 import orderService from '~/services/orders.services'
 
@@ -22,8 +22,9 @@ export const getMyOrdersController = async (
   })
 }
 
-export const cancelOrderController = async (req: Request<OrderIdReqParams>, res: Response) => {
-  const result = await orderService.cancelOrder(req.params.orderId)
+export const cancelOrderController = async (req: Request<OrderIdReqParams, any, CancelOrderReqBody>, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await orderService.cancelOrder({ orderId: req.params.orderId, userId, note: req.body.note })
   return res.json({
     message: ORDER_MESSAGES.CANCEL_ORDER_SUCCESS,
     data: result
@@ -48,7 +49,13 @@ export const updateOrderStatusController = async (
   req: Request<OrderIdReqParams, any, UpdateOrderStatusReqBody>,
   res: Response
 ) => {
-  const result = await orderService.updateOrderStatus({ orderId: req.params.orderId, status: req.body.status })
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await orderService.updateOrderStatus({
+    orderId: req.params.orderId,
+    status: req.body.status,
+    note: req.body.note,
+    userId
+  })
   return res.json({
     message: ORDER_MESSAGES.UPDATE_ORDER_STATUS_SUCCESS,
     data: result
@@ -56,8 +63,39 @@ export const updateOrderStatusController = async (
 }
 
 export const deleteOrderController = async (req: Request<OrderIdReqParams>, res: Response) => {
-  await orderService.deleteOrder(req.params.orderId)
+  const { userId } = req.decodedAuthorization as TokenPayload
+  await orderService.deleteOrder({ orderId: req.params.orderId, userId })
   return res.json({
     message: ORDER_MESSAGES.DELETE_ORDER_SUCCESS
   })
 }
+
+export const getDeletedOrdersController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { orders, ...pagination } = await orderService.getDeletedOrders(req.query)
+  return res.json({
+    message: ORDER_MESSAGES.GET_DELETED_ORDERS_SUCCESS,
+    data: {
+      orders,
+      pagination
+    }
+  })
+}
+
+export const restoreOrderController = async (req: Request<OrderIdReqParams>, res: Response) => {
+  const result = await orderService.restoreOrder(req.params.orderId)
+  return res.json({
+    message: ORDER_MESSAGES.RESTORE_ORDER_SUCCESS,
+    data: result
+  })
+}
+
+export const getOrderController = async (req: Request<OrderIdReqParams>, res: Response) => {
+  const result = await orderService.getOrder(req.params.orderId)
+  return res.json({
+    message: ORDER_MESSAGES.GET_ORDER_SUCCESS,
+    data: result
+  })
+}
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express'
+import { WithId } from 'mongodb'
+
+import { PaymentMethod } from '~/constants/enum'
+import { PAYMENT_MESSAGES } from '~/constants/message'
+import { OrderIdReqParams } from '~/models/requests/Order.requests'
+import { PaymentWebhookReqParams } from '~/models/requests/Payment.requests'
+import Order from '~/models/schemas/Order.schema'
+import paymentService from '~/services/payments.services'
+import { getPaymentMethodByProviderName, paymentProviders } from '~/utils/payment'
+
+export const paymentWebhookController = async (req: Request<PaymentWebhookReqParams>, res: Response) => {
+  const method = getPaymentMethodByProviderName(req.params.provider) as PaymentMethod
+  // Cổng thanh toán có thể gửi kết quả qua query (redirect/IPN) hoặc qua body (webhook)
+  const params = { ...req.query, ...req.body } as Record<string, string>
+  const { formatCallbackResponse } = paymentProviders[method]
+  if (formatCallbackResponse) {
+    const response = await paymentService.handleCallback({ method, params }).then(
+      ({ isAlreadyHandled }) => formatCallbackResponse({ isAlreadyHandled }),
+      (error) => {
+        console.log(error)
+        return formatCallbackResponse({ error })
+      }
+    )
+    return res.json(response)
+  }
+  const result = await paymentService.handleCallback({ method, params })
+  return res.json({
+    message: PAYMENT_MESSAGES.HANDLE_PAYMENT_CALLBACK_SUCCESS,
+    data: result
+  })
+}
+
+export const retryPaymentController = async (req: Request<OrderIdReqParams>, res: Response) => {
+  const result = await paymentService.retry({ order: req.order as WithId<Order>, ipAddress: req.ip || '' })
+  return res.json({
+    message: PAYMENT_MESSAGES.CREATE_PAYMENT_SUCCESS,
+    data: result
+  })
+}
@@ -2,14 +2,18 @@ import { Request, Response } from 'express'
 import { ParamsDictionary } from 'express-serve-static-core'
 
 import { PRODUCT_MESSAGES } from '~/constants/message'
-import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { DeleteReqQuery, PaginationReqQuery } from '~/models/requests/Common.requests'
 import {
   BrandIdReqParams,
+  ColorIdReqParams,
   CreateBrandReqBody,
+  CreateColorReqBody,
   CreateProductCategoryReqBody,
   CreateProductReqBody,
+  GetProductsReqQuery,
   ProductCategoryIdReqParams,
-  ProductIdReqParams
+  ProductIdReqParams,
+  UpdateProductCategoryReqBody
 } from '~/models/requests/Product.requests'
 import { TokenPayload } from '~/models/requests/User.requests'
 import productService from '~/services/product.services'
@@ -27,7 +31,7 @@ export const createCategoryController = async (
 }
 
 export const updateCategoryController = async (
-  req: Request<ProductCategoryIdReqParams, any, CreateProductCategoryReqBody>,
+  req: Request<ProductCategoryIdReqParams, any, UpdateProductCategoryReqBody>,
   res: Response
 ) => {
   const result = await productService.updateCategory({ dto: req.body, categoryId: req.params.productCategoryId })
@@ -37,10 +41,19 @@ export const updateCategoryController = async (
   })
 }
 
-export const deleteCategoryController = async (req: Request<ProductCategoryIdReqParams>, res: Response) => {
-  await productService.deleteCategory(req.params.productCategoryId)
+export const deleteCategoryController = async (
+  req: Request<ProductCategoryIdReqParams, any, any, DeleteReqQuery>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await productService.deleteCategory({
+    categoryId: req.params.productCategoryId,
+    userId,
+    force: req.query.force === 'true'
+  })
   return res.json({
-    message: PRODUCT_MESSAGES.DELETE_PRODUCT_CATEGORY_SUCCESS
+    message: PRODUCT_MESSAGES.DELETE_PRODUCT_CATEGORY_SUCCESS,
+    data: result
   })
 }
 
@@ -58,6 +71,14 @@ export const getAllCategoriesController = async (
   })
 }
 
+export const getCategoryTreeController = async (req: Request, res: Response) => {
+  const result = await productService.getCategoryTree()
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_CATEGORY_TREE_SUCCESS,
+    data: result
+  })
+}
+
 export const getCategoryController = async (req: Request<ProductCategoryIdReqParams>, res: Response) => {
   const result = await productService.getCategory(req.params.productCategoryId)
   return res.json({
@@ -83,10 +104,19 @@ export const updateBrandController = async (req: Request<BrandIdReqParams, any,
   })
 }
 
-export const deleteBrandController = async (req: Request<BrandIdReqParams>, res: Response) => {
-  await productService.deleteBrand(req.params.brandId)
+export const deleteBrandController = async (
+  req: Request<BrandIdReqParams, any, any, DeleteReqQuery>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await productService.deleteBrand({
+    brandId: req.params.brandId,
+    userId,
+    force: req.query.force === 'true'
+  })
   return res.json({
-    message: PRODUCT_MESSAGES.DELETE_BRAND_SUCCESS
+    message: PRODUCT_MESSAGES.DELETE_BRAND_SUCCESS,
+    data: result
   })
 }
 
@@ -112,6 +142,46 @@ export const getBrandController = async (req: Request<BrandIdReqParams>, res: Re
   })
 }
 
+export const createColorController = async (req: Request<ParamsDictionary, any, CreateColorReqBody>, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await productService.createColor({ dto: req.body, userId })
+  return res.json({
+    message: PRODUCT_MESSAGES.CREATE_COLOR_SUCCESS,
+    data: result
+  })
+}
+
+export const updateColorController = async (req: Request<ColorIdReqParams, any, CreateColorReqBody>, res: Response) => {
+  const result = await productService.updateColor({ dto: req.body, colorId: req.params.colorId })
+  return res.json({
+    message: PRODUCT_MESSAGES.UPDATE_COLOR_SUCCESS,
+    data: result
+  })
+}
+
+export const deleteColorController = async (req: Request<ColorIdReqParams>, res: Response) => {
+  await productService.deleteColor(req.params.colorId)
+  return res.json({
+    message: PRODUCT_MESSAGES.DELETE_COLOR_SUCCESS
+  })
+}
+
+export const getAllColorsController = async (req: Request, res: Response) => {
+  const result = await productService.getAllColors()
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_ALL_COLORS_SUCCESS,
+    data: result
+  })
+}
+
+export const getColorController = async (req: Request<ColorIdReqParams>, res: Response) => {
+  const result = await productService.getColor(req.params.colorId)
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_COLOR_SUCCESS,
+    data: result
+  })
+}
+
 export const createProductController = async (
   req: Request<ParamsDictionary, any, CreateProductReqBody>,
   res: Response
@@ -135,10 +205,19 @@ export const updateProductController = async (
   })
 }
 
-export const deleteProductController = async (req: Request<ProductIdReqParams>, res: Response) => {
-  await productService.deleteProduct(req.params.productId)
+export const deleteProductController = async (
+  req: Request<ProductIdReqParams, any, any, DeleteReqQuery>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await productService.deleteProduct({
+    productId: req.params.productId,
+    userId,
+    force: req.query.force === 'true'
+  })
   return res.json({
-    message: PRODUCT_MESSAGES.DELETE_PRODUCT_SUCCESS
+    message: PRODUCT_MESSAGES.DELETE_PRODUCT_SUCCESS,
+    data: result
   })
 }
 
@@ -157,7 +236,8 @@ export const getAllProductsController = async (
 }
 
 export const getProductController = async (req: Request<ProductIdReqParams>, res: Response) => {
-  const result = await productService.getProduct(req.params.productId)
+  const userId = (req.decodedAuthorization as TokenPayload | undefined)?.userId
+  const result = await productService.getProduct({ productId: req.params.productId, userId })
   return res.json({
     message: PRODUCT_MESSAGES.GET_PRODUCT_SUCCESS,
     data: result
@@ -165,10 +245,11 @@ export const getProductController = async (req: Request<ProductIdReqParams>, res
 }
 
 export const getProductsController = async (
-  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  req: Request<ParamsDictionary, any, any, GetProductsReqQuery>,
   res: Response
 ) => {
-  const { products, ...pagination } = await productService.getProducts(req.query)
+  const userId = (req.decodedAuthorization as TokenPayload | undefined)?.userId
+  const { products, ...pagination } = await productService.getProducts({ query: req.query, userId })
   return res.json({
     message: PRODUCT_MESSAGES.GET_PRODUCTS_SUCCESS,
     data: {
@@ -177,3 +258,69 @@ export const getProductsController = async (
     }
   })
 }
+
+export const getDeletedProductsController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { products, ...pagination } = await productService.getDeletedProducts(req.query)
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_DELETED_PRODUCTS_SUCCESS,
+    data: {
+      products,
+      pagination
+    }
+  })
+}
+
+export const restoreProductController = async (req: Request<ProductIdReqParams>, res: Response) => {
+  const result = await productService.restoreProduct(req.params.productId)
+  return res.json({
+    message: PRODUCT_MESSAGES.RESTORE_PRODUCT_SUCCESS,
+    data: result
+  })
+}
+
+export const getDeletedBrandsController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { brands, ...pagination } = await productService.getDeletedBrands(req.query)
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_DELETED_BRANDS_SUCCESS,
+    data: {
+      brands,
+      pagination
+    }
+  })
+}
+
+export const restoreBrandController = async (req: Request<BrandIdReqParams>, res: Response) => {
+  const result = await productService.restoreBrand(req.params.brandId)
+  return res.json({
+    message: PRODUCT_MESSAGES.RESTORE_BRAND_SUCCESS,
+    data: result
+  })
+}
+
+export const getDeletedCategoriesController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { productCategories, ...pagination } = await productService.getDeletedCategories(req.query)
+  return res.json({
+    message: PRODUCT_MESSAGES.GET_DELETED_CATEGORIES_SUCCESS,
+    data: {
+      productCategories,
+      pagination
+    }
+  })
+}
+
+export const restoreCategoryController = async (req: Request<ProductCategoryIdReqParams>, res: Response) => {
+  const result = await productService.restoreCategory(req.params.productCategoryId)
+  return res.json({
+    message: PRODUCT_MESSAGES.RESTORE_PRODUCT_CATEGORY_SUCCESS,
+    data: result
+  })
+}
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express'
+import { ParamsDictionary } from 'express-serve-static-core'
+
+import { ROLE_MESSAGES } from '~/constants/message'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { CreateRoleReqBody, RoleIdReqParams } from '~/models/requests/Role.requests'
+import roleService from '~/services/roles.services'
+
+export const createRoleController = async (req: Request<ParamsDictionary, any, CreateRoleReqBody>, res: Response) => {
+  const result = await roleService.create(req.body)
+  return res.json({
+    message: ROLE_MESSAGES.CREATE_ROLE_SUCCESS,
+    data: result
+  })
+}
+
+export const updateRoleController = async (req: Request<RoleIdReqParams, any, CreateRoleReqBody>, res: Response) => {
+  const result = await roleService.update({ dto: req.body, roleId: req.params.roleId })
+  return res.json({
+    message: ROLE_MESSAGES.UPDATE_ROLE_SUCCESS,
+    data: result
+  })
+}
+
+export const deleteRoleController = async (req: Request<RoleIdReqParams>, res: Response) => {
+  await roleService.delete(req.params.roleId)
+  return res.json({
+    message: ROLE_MESSAGES.DELETE_ROLE_SUCCESS
+  })
+}
+
+export const getAllRolesController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { roles, ...pagination } = await roleService.getAll(req.query)
+  return res.json({
+    message: ROLE_MESSAGES.GET_ALL_ROLES_SUCCESS,
+    data: {
+      roles,
+      pagination
+    }
+  })
+}
+
+export const getAllPermissionsController = async (_: Request, res: Response) => {
+  const result = roleService.getAllPermissions()
+  return res.json({
+    message: ROLE_MESSAGES.GET_ALL_PERMISSIONS_SUCCESS,
+    data: result
+  })
+}
+
+export const getRoleController = async (req: Request<RoleIdReqParams>, res: Response) => {
+  const result = await roleService.getOne(req.params.roleId)
+  return res.json({
+    message: ROLE_MESSAGES.GET_ROLE_SUCCESS,
+    data: result
+  })
+}
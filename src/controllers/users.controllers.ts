@@ -2,24 +2,37 @@ import { Request, Response } from 'express'
 import { ParamsDictionary } from 'express-serve-static-core'
 import { WithId } from 'mongodb'
 
-import { USER_MESSAGES } from '~/constants/message'
-import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { ROLE_MESSAGES, USER_MESSAGES } from '~/constants/message'
 import {
+  AssignRolesReqBody,
   ChangePasswordReqBody,
   ForgotPasswordTokenReqBody,
+  GetCustomersReqQuery,
   LoginReqBody,
+  LoginTwoFactorReqBody,
   LogoutReqBody,
+  OAuthLoginReqBody,
+  OAuthProviderReqParams,
   RefreshTokenReqBody,
   RegisterReqBody,
   ResetPasswordReqBody,
+  SessionIdReqParams,
   TokenPayload,
-  UpdateMeReqBody
+  TwoFactorCodeReqBody,
+  UpdateMeReqBody,
+  UpdateTwoFactorPolicyReqBody,
+  UpdateUserRoleReqBody,
+  UpdateUserStatusReqBody,
+  UserIdReqParams
 } from '~/models/requests/User.requests'
-import User from '~/models/schemas/User.schema'
+import User, { LoggedUser } from '~/models/schemas/User.schema'
+import roleService from '~/services/roles.services'
+import settingService from '~/services/settings.services'
 import userService from '~/services/users.services'
+import { getClientDevice } from '~/utils/utils'
 
 export const registerController = async (req: Request<ParamsDictionary, any, RegisterReqBody>, res: Response) => {
-  const result = await userService.register(req.body)
+  const result = await userService.register({ data: req.body, device: getClientDevice(req) })
   return res.json({
     message: USER_MESSAGES.REGISTER_SUCCESS,
     data: result
@@ -27,8 +40,15 @@ export const registerController = async (req: Request<ParamsDictionary, any, Reg
 }
 
 export const loginController = async (req: Request<ParamsDictionary, any, LoginReqBody>, res: Response) => {
-  const user = req.user
-  const result = await userService.login(user)
+  const user = req.user as LoggedUser
+  if (user.twoFactorEnabled) {
+    const result = await userService.createTwoFactorChallenge(user._id.toString())
+    return res.json({
+      message: USER_MESSAGES.TWO_FACTOR_IS_REQUIRED,
+      data: result
+    })
+  }
+  const result = await userService.login({ user, device: getClientDevice(req) })
   return res.json({
     message: USER_MESSAGES.LOGIN_SUCCESS,
     data: {
@@ -38,6 +58,44 @@ export const loginController = async (req: Request<ParamsDictionary, any, LoginR
   })
 }
 
+export const loginTwoFactorController = async (
+  req: Request<ParamsDictionary, any, LoginTwoFactorReqBody>,
+  res: Response
+) => {
+  const user = req.user as LoggedUser
+  const result = await userService.login({ user, device: getClientDevice(req) })
+  return res.json({
+    message: USER_MESSAGES.LOGIN_SUCCESS,
+    data: {
+      ...result,
+      user
+    }
+  })
+}
+
+export const getOAuthUrlController = async (req: Request<OAuthProviderReqParams>, res: Response) => {
+  const result = await userService.getOAuthUrl(req.params.provider)
+  return res.json({
+    message: USER_MESSAGES.GET_OAUTH_URL_SUCCESS,
+    data: result
+  })
+}
+
+export const oauthLoginController = async (
+  req: Request<OAuthProviderReqParams, any, OAuthLoginReqBody>,
+  res: Response
+) => {
+  const result = await userService.loginWithOAuth({
+    provider: req.params.provider,
+    code: req.body.code,
+    device: getClientDevice(req)
+  })
+  return res.json({
+    message: 'twoFactorToken' in result ? USER_MESSAGES.TWO_FACTOR_IS_REQUIRED : USER_MESSAGES.LOGIN_SUCCESS,
+    data: result
+  })
+}
+
 export const resendEmailVerifyController = async (req: Request, res: Response) => {
   const { userId } = req.decodedAuthorization as TokenPayload
   await userService.resendEmailVerify(userId)
@@ -48,7 +106,7 @@ export const resendEmailVerifyController = async (req: Request, res: Response) =
 
 export const verifyEmailController = async (req: Request, res: Response) => {
   const { userId } = req.decodedVerifyEmailToken as TokenPayload
-  const result = await userService.verifyEmail(userId)
+  const result = await userService.verifyEmail({ userId, device: getClientDevice(req) })
   return res.json({
     message: USER_MESSAGES.EMAIL_VERIFICATION_SUCCESS,
     data: result
@@ -66,14 +124,12 @@ export const refreshTokenController = async (
   req: Request<ParamsDictionary, any, RefreshTokenReqBody>,
   res: Response
 ) => {
-  const { userId, verify, status, role, exp } = req.decodedRefreshToken as TokenPayload
+  const { userId, exp } = req.decodedRefreshToken as TokenPayload
   const result = await userService.refreshToken({
     refreshToken: req.body.refreshToken,
     userId,
-    verify,
-    status,
-    role,
-    refreshTokenExp: exp
+    refreshTokenExp: exp,
+    device: getClientDevice(req)
   })
   return res.json({
     message: USER_MESSAGES.REFRESH_TOKEN_SUCCESS,
@@ -109,7 +165,8 @@ export const resetPasswordController = async (
   const { userId } = req.decodedForgotPasswordToken as TokenPayload
   const result = await userService.resetPassword({
     password: req.body.password,
-    userId
+    userId,
+    device: getClientDevice(req)
   })
   return res.json({
     message: USER_MESSAGES.RESET_PASSWORD_SUCCESS,
@@ -121,13 +178,16 @@ export const changePasswordController = async (
   req: Request<ParamsDictionary, any, ChangePasswordReqBody>,
   res: Response
 ) => {
-  const { userId } = req.decodedAuthorization as TokenPayload
-  await userService.changePassword({
+  const { userId, sessionId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.changePassword({
     userId,
-    password: req.body.password
+    sessionId,
+    password: req.body.password,
+    device: getClientDevice(req)
   })
   return res.json({
-    message: USER_MESSAGES.CHANGE_PASSWORD_SUCCESS
+    message: USER_MESSAGES.CHANGE_PASSWORD_SUCCESS,
+    data: result
   })
 }
 
@@ -141,8 +201,8 @@ export const getMeController = async (req: Request, res: Response) => {
 }
 
 export const updateMeController = async (req: Request<ParamsDictionary, any, UpdateMeReqBody>, res: Response) => {
-  const { userId } = req.decodedAuthorization as TokenPayload
-  const result = await userService.updateMe({ dto: req.body, userId })
+  const { userId, sessionId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.updateMe({ dto: req.body, userId, sessionId, device: getClientDevice(req) })
   return res.json({
     message: USER_MESSAGES.UDPATE_ME_SUCCESS,
     data: result
@@ -150,7 +210,7 @@ export const updateMeController = async (req: Request<ParamsDictionary, any, Upd
 }
 
 export const getAllCustomersController = async (
-  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  req: Request<ParamsDictionary, any, any, GetCustomersReqQuery>,
   res: Response
 ) => {
   const { customers, ...pagination } = await userService.getAllCustomers(req.query)
@@ -162,3 +222,102 @@ export const getAllCustomersController = async (
     }
   })
 }
+
+export const assignRolesController = async (req: Request<UserIdReqParams, any, AssignRolesReqBody>, res: Response) => {
+  const result = await roleService.assignToUser({ userId: req.params.userId, roleIds: req.body.roleIds })
+  return res.json({
+    message: ROLE_MESSAGES.ASSIGN_ROLES_SUCCESS,
+    data: result
+  })
+}
+
+export const getCustomerController = async (req: Request<UserIdReqParams>, res: Response) => {
+  const result = await userService.getCustomer(req.params.userId)
+  return res.json({
+    message: USER_MESSAGES.GET_CUSTOMER_SUCCESS,
+    data: result
+  })
+}
+
+export const updateUserStatusController = async (
+  req: Request<UserIdReqParams, any, UpdateUserStatusReqBody>,
+  res: Response
+) => {
+  const result = await userService.updateStatus({ userId: req.params.userId, status: req.body.status })
+  return res.json({
+    message: USER_MESSAGES.UPDATE_USER_STATUS_SUCCESS,
+    data: result
+  })
+}
+
+export const updateUserRoleController = async (
+  req: Request<UserIdReqParams, any, UpdateUserRoleReqBody>,
+  res: Response
+) => {
+  const result = await userService.updateRole({ userId: req.params.userId, role: req.body.role })
+  return res.json({
+    message: USER_MESSAGES.UPDATE_USER_ROLE_SUCCESS,
+    data: result
+  })
+}
+
+export const getSessionsController = async (req: Request, res: Response) => {
+  const { userId, sessionId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.getSessions({ userId, sessionId })
+  return res.json({
+    message: USER_MESSAGES.GET_SESSIONS_SUCCESS,
+    data: result
+  })
+}
+
+export const revokeSessionController = async (req: Request<SessionIdReqParams>, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  await userService.revokeSession({ userId, sessionId: req.params.sessionId })
+  return res.json({
+    message: USER_MESSAGES.REVOKE_SESSION_SUCCESS
+  })
+}
+
+export const enrollTwoFactorController = async (req: Request, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.enrollTwoFactor(userId)
+  return res.json({
+    message: USER_MESSAGES.ENROLL_TWO_FACTOR_SUCCESS,
+    data: result
+  })
+}
+
+export const verifyTwoFactorSetupController = async (
+  req: Request<ParamsDictionary, any, TwoFactorCodeReqBody>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.enableTwoFactor(userId)
+  return res.json({
+    message: USER_MESSAGES.ENABLE_TWO_FACTOR_SUCCESS,
+    data: result
+  })
+}
+
+export const disableTwoFactorController = async (
+  req: Request<ParamsDictionary, any, TwoFactorCodeReqBody>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await userService.disableTwoFactor(userId)
+  return res.json({
+    message: USER_MESSAGES.DISABLE_TWO_FACTOR_SUCCESS,
+    data: result
+  })
+}
+
+export const updateTwoFactorPolicyController = async (
+  req: Request<ParamsDictionary, any, UpdateTwoFactorPolicyReqBody>,
+  res: Response
+) => {
+  const result = await settingService.updateTwoFactorPolicy(req.body.requireAdminTwoFactor)
+  return res.json({
+    message: USER_MESSAGES.UPDATE_TWO_FACTOR_POLICY_SUCCESS,
+    data: result
+  })
+}
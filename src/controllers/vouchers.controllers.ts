@@ -0,0 +1,60 @@
+import { Request, Response } from 'express'
+import { ParamsDictionary } from 'express-serve-static-core'
+
+import { VOUCHER_MESSAGES } from '~/constants/message'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { TokenPayload } from '~/models/requests/User.requests'
+import { CreateVoucherReqBody, VoucherIdReqParams } from '~/models/requests/Voucher.requests'
+import voucherService from '~/services/vouchers.services'
+
+export const createVoucherController = async (
+  req: Request<ParamsDictionary, any, CreateVoucherReqBody>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const result = await voucherService.create({ dto: req.body, userId })
+  return res.json({
+    message: VOUCHER_MESSAGES.CREATE_VOUCHER_SUCCESS,
+    data: result
+  })
+}
+
+export const updateVoucherController = async (
+  req: Request<VoucherIdReqParams, any, CreateVoucherReqBody>,
+  res: Response
+) => {
+  const result = await voucherService.update({ dto: req.body, voucherId: req.params.voucherId })
+  return res.json({
+    message: VOUCHER_MESSAGES.UPDATE_VOUCHER_SUCCESS,
+    data: result
+  })
+}
+
+export const deleteVoucherController = async (req: Request<VoucherIdReqParams>, res: Response) => {
+  await voucherService.delete(req.params.voucherId)
+  return res.json({
+    message: VOUCHER_MESSAGES.DELETE_VOUCHER_SUCCESS
+  })
+}
+
+export const getAllVouchersController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { vouchers, ...pagination } = await voucherService.getAll(req.query)
+  return res.json({
+    message: VOUCHER_MESSAGES.GET_ALL_VOUCHERS_SUCCESS,
+    data: {
+      vouchers,
+      pagination
+    }
+  })
+}
+
+export const getVoucherController = async (req: Request<VoucherIdReqParams>, res: Response) => {
+  const result = await voucherService.getOne(req.params.voucherId)
+  return res.json({
+    message: VOUCHER_MESSAGES.GET_VOUCHER_SUCCESS,
+    data: result
+  })
+}
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express'
+import { ParamsDictionary } from 'express-serve-static-core'
+
+import { WISHLIST_MESSAGES } from '~/constants/message'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { ProductIdReqParams } from '~/models/requests/Product.requests'
+import { TokenPayload } from '~/models/requests/User.requests'
+import wishlistService from '~/services/wishlists.services'
+
+export const addToWishlistController = async (req: Request<ProductIdReqParams>, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  await wishlistService.add({ productId: req.params.productId, userId })
+  return res.json({
+    message: WISHLIST_MESSAGES.ADD_TO_WISHLIST_SUCCESS
+  })
+}
+
+export const removeFromWishlistController = async (req: Request<ProductIdReqParams>, res: Response) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  await wishlistService.remove({ productId: req.params.productId, userId })
+  return res.json({
+    message: WISHLIST_MESSAGES.REMOVE_FROM_WISHLIST_SUCCESS
+  })
+}
+
+export const getMyWishlistController = async (
+  req: Request<ParamsDictionary, any, any, PaginationReqQuery>,
+  res: Response
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const { products, ...pagination } = await wishlistService.getMyWishlist({ userId, query: req.query })
+  return res.json({
+    message: WISHLIST_MESSAGES.GET_WISHLIST_SUCCESS,
+    data: {
+      products,
+      pagination
+    }
+  })
+}
@@ -6,12 +6,21 @@ import { defaultErrorHandler } from '~/middlewares/error.middlewares'
 import addressesRouter from '~/routes/addresses.routes'
 import cartItemsRouter from '~/routes/cartItems.routes'
 import filesRouter from '~/routes/files.routes'
+import jobsRouter from '~/routes/jobs.routes'
 import ordersRouter from '~/routes/orders.routes'
+import paymentsRouter from '~/routes/payments.routes'
 import productsRouter from '~/routes/products.routes'
 import reviewsRouter from '~/routes/reviews.routes'
+import rolesRouter from '~/routes/roles.routes'
 import staticRouter from '~/routes/static.routes'
 import usersRouter from '~/routes/users.routes'
+import vouchersRouter from '~/routes/vouchers.routes'
+import wishlistsRouter from '~/routes/wishlists.routes'
 import databaseService from '~/services/database.services'
+import jobService from '~/services/jobs.services'
+import productService from '~/services/product.services'
+import trashService from '~/services/trash.services'
+import userService from '~/services/users.services'
 import { initFolders } from '~/utils/file'
 
 databaseService.connect().then(() => {
@@ -19,7 +28,19 @@ databaseService.connect().then(() => {
   databaseService.indexRefreshTokens()
   databaseService.indexAddresses()
   databaseService.indexCartItems()
+  databaseService.indexProducts()
+  databaseService.indexProductCategories()
   databaseService.indexOrders()
+  databaseService.indexVouchers()
+  databaseService.indexPayments()
+  databaseService.indexRoles()
+  databaseService.indexWishlists()
+  databaseService.indexJobs()
+  productService.migrateProductMetrics()
+  productService.migrateCategories()
+  userService.migrateRefreshTokens()
+  jobService.startWorker()
+  trashService.startPurgeSchedule()
 })
 
 initFolders()
@@ -27,6 +48,19 @@ initFolders()
 const app = express()
 const port = ENV_CONFIG.PORT || 4000
 
+// App chạy sau reverse proxy thì cần khai báo TRUST_PROXY để req.ip là IP thật của client (dùng cho giới hạn request)
+// Nhận true/false, số proxy đứng trước app (ví dụ: 1) hoặc danh sách địa chỉ/subnet theo cú pháp của Express
+if (ENV_CONFIG.TRUST_PROXY) {
+  const trustProxy = ENV_CONFIG.TRUST_PROXY.trim()
+  if (trustProxy === 'true' || trustProxy === 'false') {
+    app.set('trust proxy', trustProxy === 'true')
+  } else if (/^\d+$/.test(trustProxy)) {
+    app.set('trust proxy', Number(trustProxy))
+  } else {
+    app.set('trust proxy', trustProxy)
+  }
+}
+
 const corsOptions: CorsOptions = {
   origin: ENV_CONFIG.CLIENT_URL
 }
@@ -39,8 +73,13 @@ app.use('/addresses', addressesRouter)
 app.use('/products', productsRouter)
 app.use('/static', staticRouter)
 app.use('/carts', cartItemsRouter)
+app.use('/wishlists', wishlistsRouter)
 app.use('/orders', ordersRouter)
 app.use('/reviews', reviewsRouter)
+app.use('/vouchers', vouchersRouter)
+app.use('/payments', paymentsRouter)
+app.use('/roles', rolesRouter)
+app.use('/jobs', jobsRouter)
 app.use(defaultErrorHandler)
 
 app.listen(port, () => {
@@ -1,14 +1,34 @@
 import { NextFunction, Request, Response } from 'express'
 import { ParamSchema, checkSchema } from 'express-validator'
-import { ObjectId } from 'mongodb'
+import { ObjectId, WithId } from 'mongodb'
 
-import { CartItemStatus, HttpStatusCode } from '~/constants/enum'
-import { CART_MESSAGES, VOUCHER_MESSAGES } from '~/constants/message'
+import { CartItemStatus, HttpStatusCode, PaymentMethod } from '~/constants/enum'
+import {
+  ADDRESS_MESSAGES,
+  CART_MESSAGES,
+  PAYMENT_MESSAGES,
+  PRODUCT_MESSAGES,
+  VOUCHER_MESSAGES
+} from '~/constants/message'
 import { ErrorWithStatus } from '~/models/Errors'
+import {
+  AddToCartReqBody,
+  CartItemIdReqParams,
+  UpdateCartItemQuantityReqBody
+} from '~/models/requests/CartItem.requests'
+import { ProductIdReqParams } from '~/models/requests/Product.requests'
 import { TokenPayload } from '~/models/requests/User.requests'
+import CartItem from '~/models/schemas/CartItem.schema'
+import Product from '~/models/schemas/Product.schema'
+import cartItemService from '~/services/cartItems.services'
 import databaseService from '~/services/database.services'
+import voucherService from '~/services/vouchers.services'
+import { paymentProviders } from '~/utils/payment'
+import { numberEnumToArray } from '~/utils/utils'
 import { validate } from '~/utils/validation'
 
+const paymentMethods = numberEnumToArray(PaymentMethod)
+
 const quantitySchema: ParamSchema = {
   custom: {
     options: (value) => {
@@ -38,7 +58,35 @@ const quantitySchema: ParamSchema = {
 export const addToCartValidator = validate(
   checkSchema(
     {
-      quantity: quantitySchema
+      quantity: quantitySchema,
+      // Bắt buộc chọn phiên bản khi sản phẩm có phiên bản
+      variantId: {
+        trim: true,
+        custom: {
+          options: async (value: string | undefined, { req }) => {
+            const product = await databaseService.products.findOne({
+              _id: new ObjectId((req as Request).params.productId)
+            })
+            const variants = product?.variants || []
+            if (!value) {
+              if (variants.length > 0) {
+                throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_ID_IS_REQUIRED)
+              }
+              return true
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_ID_IS_INVALID)
+            }
+            if (!variants.some((variant) => variant._id.equals(value))) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.PRODUCT_VARIANT_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
     },
     ['body']
   )
@@ -125,49 +173,73 @@ export const checkoutValidator = validate(
         optional: true,
         trim: true,
         custom: {
-          options: (value: string) => {
+          options: async (value: string, { req }) => {
             if (!ObjectId.isValid(value)) {
               throw new ErrorWithStatus({
                 message: VOUCHER_MESSAGES.VOUCHER_ID_IS_INVALID,
                 status: HttpStatusCode.BadRequest
               })
             }
+            const { userId } = (req as Request).decodedAuthorization as TokenPayload
+            await voucherService.checkUsable({ voucherId: value, userId })
             return true
           }
         }
       },
-      totalAmountReduced: {
-        optional: true,
+      addressId: {
+        trim: true,
         custom: {
-          options: (value, { req }) => {
-            if (value === undefined) {
-              throw new ErrorWithStatus({
-                message: CART_MESSAGES.TOTAL_AMOUNT_REDUCED_IS_REQUIRED,
-                status: HttpStatusCode.BadRequest
+          options: async (value: string | undefined, { req }) => {
+            const { userId } = (req as Request).decodedAuthorization as TokenPayload
+            if (!value) {
+              const defaultAddress = await databaseService.addresses.findOne({
+                userId: new ObjectId(userId),
+                isDefault: true
               })
+              if (!defaultAddress) {
+                throw new ErrorWithStatus({
+                  message: CART_MESSAGES.SHIPPING_ADDRESS_IS_REQUIRED,
+                  status: HttpStatusCode.BadRequest
+                })
+              }
+              return true
             }
-            if (!Number.isInteger(value)) {
+            if (!ObjectId.isValid(value)) {
               throw new ErrorWithStatus({
-                message: CART_MESSAGES.TOTAL_AMOUNT_REDUCED_MUST_BE_AN_INT,
+                message: ADDRESS_MESSAGES.ADDRESS_ID_IS_INVALID,
                 status: HttpStatusCode.BadRequest
               })
             }
-            if (value < 0) {
+            const address = await databaseService.addresses.findOne({ _id: new ObjectId(value) })
+            if (!address) {
               throw new ErrorWithStatus({
-                message: CART_MESSAGES.TOTAL_AMOUNT_REDUCED_MUST_BE_GREATER_THAN_OR_EQUAL_ZERO,
-                status: HttpStatusCode.BadRequest
+                message: ADDRESS_MESSAGES.ADDRESS_NOT_FOUND,
+                status: HttpStatusCode.NotFound
               })
             }
-            const { totalAmount } = req.body
-            if (value > totalAmount) {
+            if (address.userId.toString() !== userId) {
               throw new ErrorWithStatus({
-                message: CART_MESSAGES.TOTAL_AMOUNT_REDUCED_MUST_BE_LESS_THAN_TOTAL_AMOUNT,
-                status: HttpStatusCode.BadRequest
+                message: ADDRESS_MESSAGES.PERMISSION_DENIED,
+                status: HttpStatusCode.Forbidden
               })
             }
             return true
           }
         }
+      },
+      paymentMethod: {
+        optional: true,
+        custom: {
+          options: (value) => {
+            if (!paymentMethods.includes(value)) {
+              throw new Error(PAYMENT_MESSAGES.PAYMENT_METHOD_IS_INVALID)
+            }
+            if (!paymentProviders[value as PaymentMethod].isAvailable) {
+              throw new Error(PAYMENT_MESSAGES.PAYMENT_METHOD_IS_NOT_AVAILABLE)
+            }
+            return true
+          }
+        }
       }
     },
     ['body']
@@ -176,7 +248,7 @@ export const checkoutValidator = validate(
 
 export const notEmptyCartValidator = async (req: Request, _: Response, next: NextFunction) => {
   const { userId } = req.decodedAuthorization as TokenPayload
-  const cartItemsCount = await databaseService.cartItems.countDocuments({
+  const cartItemsCount = await cartItemService.countCartItems({
     userId: new ObjectId(userId),
     status: CartItemStatus.InCart
   })
@@ -190,3 +262,60 @@ export const notEmptyCartValidator = async (req: Request, _: Response, next: Nex
   }
   next()
 }
+
+// Tồn kho được lấy theo phiên bản nếu mục trong giỏ hàng có chọn phiên bản
+const getAvailableCount = (product: WithId<Product> | null, variantId: ObjectId | null) => {
+  if (!product) return 0
+  if (!variantId) return product.availableCount
+  const variant = product.variants?.find((item) => item._id.equals(variantId))
+  return variant ? variant.availableCount : 0
+}
+
+export const addToCartStockValidator = async (
+  req: Request<ProductIdReqParams, any, AddToCartReqBody>,
+  _: Response,
+  next: NextFunction
+) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const productId = new ObjectId(req.params.productId)
+  const variantId = req.body.variantId ? new ObjectId(req.body.variantId) : null
+  const [product, cartItem] = await Promise.all([
+    databaseService.products.findOne({ _id: productId }),
+    databaseService.cartItems.findOne({
+      userId: new ObjectId(userId),
+      productId,
+      variantId,
+      status: CartItemStatus.InCart
+    })
+  ])
+  const quantity = req.body.quantity + (cartItem ? cartItem.quantity : 0)
+  if (!product || quantity > getAvailableCount(product, variantId)) {
+    return next(
+      new ErrorWithStatus({
+        message: CART_MESSAGES.QUANTITY_EXCEEDS_AVAILABLE_COUNT,
+        status: HttpStatusCode.BadRequest
+      })
+    )
+  }
+  next()
+}
+
+export const updateCartItemStockValidator = async (
+  req: Request<CartItemIdReqParams, any, UpdateCartItemQuantityReqBody>,
+  _: Response,
+  next: NextFunction
+) => {
+  const cartItem = (await databaseService.cartItems.findOne({
+    _id: new ObjectId(req.params.cartItemId)
+  })) as WithId<CartItem>
+  const product = await databaseService.products.findOne({ _id: cartItem.productId })
+  if (!product || req.body.quantity > getAvailableCount(product, cartItem.variantId || null)) {
+    return next(
+      new ErrorWithStatus({
+        message: CART_MESSAGES.QUANTITY_EXCEEDS_AVAILABLE_COUNT,
+        status: HttpStatusCode.BadRequest
+      })
+    )
+  }
+  next()
+}
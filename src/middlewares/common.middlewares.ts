@@ -1,6 +1,7 @@
 import { NextFunction, Request, Response } from 'express'
-import { checkSchema } from 'express-validator'
+import { ParamSchema, checkSchema } from 'express-validator'
 import pick from 'lodash/pick'
+import { ObjectId } from 'mongodb'
 
 import { HttpStatusCode } from '~/constants/enum'
 import { GENERAL_MESSAGES } from '~/constants/message'
@@ -55,3 +56,42 @@ export const paginationValidator = validate(
     ['query']
   )
 )
+
+export const deleteQueryValidator = validate(
+  checkSchema(
+    {
+      force: {
+        optional: true,
+        trim: true,
+        isIn: {
+          options: [['true', 'false']],
+          errorMessage: GENERAL_MESSAGES.FORCE_MUST_BE_A_BOOLEAN
+        }
+      }
+    },
+    ['query']
+  )
+)
+
+// Id của bản ghi đang nằm trong thùng rác, dùng cho các route khôi phục
+export const deletedItemIdSchema = (findDeleted: (_id: ObjectId) => Promise<unknown>): ParamSchema => ({
+  trim: true,
+  custom: {
+    options: async (value: string) => {
+      if (!ObjectId.isValid(value)) {
+        throw new ErrorWithStatus({
+          message: GENERAL_MESSAGES.ID_IS_INVALID,
+          status: HttpStatusCode.BadRequest
+        })
+      }
+      const item = await findDeleted(new ObjectId(value))
+      if (!item) {
+        throw new ErrorWithStatus({
+          message: GENERAL_MESSAGES.ITEM_NOT_FOUND_IN_TRASH,
+          status: HttpStatusCode.NotFound
+        })
+      }
+      return true
+    }
+  }
+})
@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response } from 'express'
+import { checkSchema } from 'express-validator'
+import { ObjectId } from 'mongodb'
+
+import { HttpStatusCode } from '~/constants/enum'
+import { FILE_MESSAGES, USER_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { FileIdReqParams } from '~/models/requests/File.requests'
+import { TokenPayload } from '~/models/requests/User.requests'
+import databaseService from '~/services/database.services'
+import { validate } from '~/utils/validation'
+
+export const fileIdValidator = validate(
+  checkSchema(
+    {
+      fileId: {
+        trim: true,
+        custom: {
+          options: async (value: string) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: FILE_MESSAGES.FILE_ID_IS_REQUIRED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: FILE_MESSAGES.FILE_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const file = await databaseService.files.findOne({ _id: new ObjectId(value) })
+            if (!file) {
+              throw new ErrorWithStatus({
+                message: FILE_MESSAGES.FILE_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
+// Chỉ người tải file lên mới được xoá file
+export const ownerOfFileValidator = async (req: Request<FileIdReqParams>, _: Response, next: NextFunction) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const file = await databaseService.files.findOne({ _id: new ObjectId(req.params.fileId) })
+  if (userId !== file?.userId.toString()) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.PERMISSION_DENIED,
+        status: HttpStatusCode.Forbidden
+      })
+    )
+  }
+  next()
+}
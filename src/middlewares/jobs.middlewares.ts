@@ -0,0 +1,49 @@
+import { checkSchema } from 'express-validator'
+import { ObjectId } from 'mongodb'
+
+import { HttpStatusCode, JobStatus } from '~/constants/enum'
+import { JOB_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import databaseService from '~/services/database.services'
+import { validate } from '~/utils/validation'
+
+export const retryJobValidator = validate(
+  checkSchema(
+    {
+      jobId: {
+        trim: true,
+        custom: {
+          options: async (value: string) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: JOB_MESSAGES.JOB_ID_IS_REQUIRED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: JOB_MESSAGES.JOB_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const job = await databaseService.jobs.findOne({ _id: new ObjectId(value) }, { projection: { status: 1 } })
+            if (!job) {
+              throw new ErrorWithStatus({
+                message: JOB_MESSAGES.JOB_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            if (job.status !== JobStatus.Failed) {
+              throw new ErrorWithStatus({
+                message: JOB_MESSAGES.JOB_IS_NOT_FAILED,
+                status: HttpStatusCode.Conflict
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
@@ -1,14 +1,16 @@
 import { NextFunction, Request, Response } from 'express'
-import { checkSchema } from 'express-validator'
+import { ParamSchema, checkSchema } from 'express-validator'
 import { ObjectId, WithId } from 'mongodb'
 
-import { HttpStatusCode, OrderStatus } from '~/constants/enum'
+import { HttpStatusCode, OrderStatus, Permission } from '~/constants/enum'
 import { ORDER_MESSAGES, USER_MESSAGES } from '~/constants/message'
+import { deletedItemIdSchema } from '~/middlewares/common.middlewares'
 import { ErrorWithStatus } from '~/models/Errors'
 import { OrderIdReqParams } from '~/models/requests/Order.requests'
 import { TokenPayload } from '~/models/requests/User.requests'
 import Order from '~/models/schemas/Order.schema'
 import databaseService from '~/services/database.services'
+import roleService from '~/services/roles.services'
 import { numberEnumToArray } from '~/utils/utils'
 import { validate } from '~/utils/validation'
 
@@ -33,7 +35,7 @@ export const orderIdValidator = validate(
                 status: HttpStatusCode.BadRequest
               })
             }
-            const order = await databaseService.orders.findOne({ _id: new ObjectId(value) })
+            const order = await databaseService.orders.findOne({ _id: new ObjectId(value), deletedAt: null })
             if (!order) {
               throw new ErrorWithStatus({
                 message: ORDER_MESSAGES.ORDER_NOT_FOUND,
@@ -49,6 +51,15 @@ export const orderIdValidator = validate(
   )
 )
 
+export const deletedOrderIdValidator = validate(
+  checkSchema(
+    {
+      orderId: deletedItemIdSchema((_id) => databaseService.orders.findOne({ _id, deletedAt: { $ne: null } }))
+    },
+    ['params']
+  )
+)
+
 export const cancelOrderValidator = async (req: Request<OrderIdReqParams>, _: Response, next: NextFunction) => {
   const order = (await databaseService.orders.findOne({ _id: new ObjectId(req.params.orderId) })) as WithId<Order>
   if (order.status !== OrderStatus.WaitForConfirmation) {
@@ -62,9 +73,27 @@ export const cancelOrderValidator = async (req: Request<OrderIdReqParams>, _: Re
   next()
 }
 
+const noteSchema: ParamSchema = {
+  optional: true,
+  isString: {
+    errorMessage: ORDER_MESSAGES.NOTE_MUST_BE_A_STRING
+  },
+  trim: true
+}
+
+export const cancelOrderBodyValidator = validate(
+  checkSchema(
+    {
+      note: noteSchema
+    },
+    ['body']
+  )
+)
+
 export const updateOrderStatusValidator = validate(
   checkSchema(
     {
+      note: noteSchema,
       status: {
         custom: {
           options: (value) => {
@@ -102,3 +131,24 @@ export const isAuthorOfOrderValidator = async (req: Request<OrderIdReqParams>, _
   }
   next()
 }
+
+export const isAuthorOrAdminOfOrderValidator = async (
+  req: Request<OrderIdReqParams>,
+  _: Response,
+  next: NextFunction
+) => {
+  const { userId, role } = req.decodedAuthorization as TokenPayload
+  const order = (await databaseService.orders.findOne({ _id: new ObjectId(req.params.orderId) })) as WithId<Order>
+  if (
+    order.userId.toString() !== userId &&
+    !(await roleService.hasPermissions({ userId, role, permissions: [Permission.OrdersRead] }))
+  ) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.PERMISSION_DENIED,
+        status: HttpStatusCode.Forbidden
+      })
+    )
+  }
+  next()
+}
@@ -0,0 +1,56 @@
+import { NextFunction, Request, Response } from 'express'
+import { checkSchema } from 'express-validator'
+import { ObjectId, WithId } from 'mongodb'
+
+import { HttpStatusCode, OrderStatus, PaymentMethod, PaymentStatus } from '~/constants/enum'
+import { PAYMENT_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { OrderIdReqParams } from '~/models/requests/Order.requests'
+import Order from '~/models/schemas/Order.schema'
+import databaseService from '~/services/database.services'
+import { getPaymentMethodByProviderName, paymentProviders } from '~/utils/payment'
+import { validate } from '~/utils/validation'
+
+export const paymentProviderValidator = validate(
+  checkSchema(
+    {
+      provider: {
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            const method = getPaymentMethodByProviderName(value)
+            if (method === null || method === PaymentMethod.Cod || !paymentProviders[method].isAvailable) {
+              throw new ErrorWithStatus({
+                message: PAYMENT_MESSAGES.PAYMENT_PROVIDER_IS_INVALID,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
+// Chỉ thanh toán lại được đơn hàng online đang chờ xác nhận và chưa thanh toán thành công
+export const payableOrderValidator = async (req: Request<OrderIdReqParams>, _: Response, next: NextFunction) => {
+  const order = (await databaseService.orders.findOne({ _id: new ObjectId(req.params.orderId) })) as WithId<Order>
+  if (
+    order.status !== OrderStatus.WaitForConfirmation ||
+    order.paymentMethod === undefined ||
+    order.paymentMethod === PaymentMethod.Cod ||
+    order.paymentStatus === PaymentStatus.Paid ||
+    !paymentProviders[order.paymentMethod].isAvailable
+  ) {
+    return next(
+      new ErrorWithStatus({
+        message: PAYMENT_MESSAGES.ORDER_CAN_NOT_BE_PAID,
+        status: HttpStatusCode.BadRequest
+      })
+    )
+  }
+  req.order = order
+  next()
+}
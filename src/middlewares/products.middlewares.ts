@@ -1,15 +1,38 @@
-import { ParamSchema, checkSchema } from 'express-validator'
+import { Request } from 'express'
+import { Meta, ParamSchema, checkSchema } from 'express-validator'
 import { ObjectId } from 'mongodb'
 
-import { HttpStatusCode, ProductDiscountType, ProductStatus } from '~/constants/enum'
+import { HttpStatusCode, ProductDiscountType, ProductSortBy, ProductStatus } from '~/constants/enum'
 import { GENERAL_MESSAGES, PRODUCT_MESSAGES } from '~/constants/message'
+import { HEX_COLOR_REGEX, SLUG_REGEX } from '~/constants/regex'
+import { deletedItemIdSchema } from '~/middlewares/common.middlewares'
 import { ErrorWithStatus } from '~/models/Errors'
+import { ProductVariantReqBody } from '~/models/requests/Product.requests'
 import databaseService from '~/services/database.services'
-import { numberEnumToArray } from '~/utils/utils'
+import productService from '~/services/product.services'
+import { getVariantsSummary, numberEnumToArray, slugify } from '~/utils/utils'
 import { validate } from '~/utils/validation'
 
 const productDiscountTypes = numberEnumToArray(ProductDiscountType)
 const statuses = numberEnumToArray(ProductStatus)
+const sortByOptions = Object.values(ProductSortBy) as string[]
+
+const priceFilterSchema: ParamSchema = {
+  optional: true,
+  trim: true,
+  custom: {
+    options: (value: string) => {
+      const price = Number(value)
+      if (value === '' || Number.isNaN(price) || price < 0) {
+        throw new ErrorWithStatus({
+          message: PRODUCT_MESSAGES.PRICE_FILTER_IS_INVALID,
+          status: HttpStatusCode.BadRequest
+        })
+      }
+      return true
+    }
+  }
+}
 
 const brandNameSchema: ParamSchema = {
   trim: true,
@@ -41,7 +64,10 @@ const categoryIdSchema: ParamSchema = {
           status: HttpStatusCode.BadRequest
         })
       }
-      const productCategory = await databaseService.productCategories.findOne({ _id: new ObjectId(value) })
+      const productCategory = await databaseService.productCategories.findOne({
+        _id: new ObjectId(value),
+        deletedAt: null
+      })
       if (!productCategory) {
         throw new ErrorWithStatus({
           message: PRODUCT_MESSAGES.PRODUCT_CATEGORY_NOT_FOUND,
@@ -69,7 +95,7 @@ const brandIdSchema: ParamSchema = {
           status: HttpStatusCode.BadRequest
         })
       }
-      const brand = await databaseService.brands.findOne({ _id: new ObjectId(value) })
+      const brand = await databaseService.brands.findOne({ _id: new ObjectId(value), deletedAt: null })
       if (!brand) {
         throw new ErrorWithStatus({
           message: PRODUCT_MESSAGES.BRAND_NOT_FOUND,
@@ -81,6 +107,106 @@ const brandIdSchema: ParamSchema = {
   }
 }
 
+const colorIdSchema: ParamSchema = {
+  trim: true,
+  custom: {
+    options: async (value: string) => {
+      if (!value) {
+        throw new ErrorWithStatus({
+          message: PRODUCT_MESSAGES.COLOR_ID_IS_REQUIRED,
+          status: HttpStatusCode.BadRequest
+        })
+      }
+      if (!ObjectId.isValid(value)) {
+        throw new ErrorWithStatus({
+          message: PRODUCT_MESSAGES.COLOR_ID_IS_INVALID,
+          status: HttpStatusCode.BadRequest
+        })
+      }
+      const color = await databaseService.colors.findOne({ _id: new ObjectId(value) })
+      if (!color) {
+        throw new ErrorWithStatus({
+          message: PRODUCT_MESSAGES.COLOR_NOT_FOUND,
+          status: HttpStatusCode.NotFound
+        })
+      }
+      return true
+    }
+  }
+}
+
+const hasVariants = (body: { variants?: unknown }) => Array.isArray(body.variants) && body.variants.length > 0
+
+// Kiểm tra từng phiên bản, SKU phải duy nhất trong toàn bộ sản phẩm và mỗi cặp màu sắc - kích cỡ chỉ xuất hiện một lần
+const variantsSchema: ParamSchema = {
+  optional: true,
+  custom: {
+    options: async (value: ProductVariantReqBody[], { req }) => {
+      if (!Array.isArray(value)) {
+        throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANTS_MUST_BE_AN_ARRAY)
+      }
+      for (const variant of value) {
+        if (!variant || typeof variant.sku !== 'string' || !variant.sku.trim()) {
+          throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_SKU_IS_REQUIRED)
+        }
+        if (variant._id !== undefined && !ObjectId.isValid(variant._id)) {
+          throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_ID_IS_INVALID)
+        }
+        if (variant.colorId !== undefined && !ObjectId.isValid(variant.colorId)) {
+          throw new Error(PRODUCT_MESSAGES.COLOR_ID_IS_INVALID)
+        }
+        if (variant.size !== undefined && typeof variant.size !== 'string') {
+          throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_SIZE_MUST_BE_A_STRING)
+        }
+        if (!Number.isInteger(variant.price) || variant.price <= 0) {
+          throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_PRICE_MUST_BE_AN_INT_GREATER_THAN_ZERO)
+        }
+        if (!Number.isInteger(variant.availableCount) || variant.availableCount < 0) {
+          throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_AVAILABLE_COUNT_MUST_BE_AN_INT_GREATER_THAN_OR_EQUAL_ZERO)
+        }
+        if (
+          variant.photos !== undefined &&
+          (!Array.isArray(variant.photos) || !variant.photos.every((item) => ObjectId.isValid(item)))
+        ) {
+          throw new Error(GENERAL_MESSAGES.PHOTOS_MUST_BE_AN_ARRAY_OBJECTID)
+        }
+      }
+      const skus = value.map((variant) => variant.sku.trim())
+      if (new Set(skus).size !== skus.length) {
+        throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_SKU_MUST_BE_UNIQUE)
+      }
+      const attributes = value.map((variant) => `${variant.colorId || ''}:${(variant.size || '').trim()}`)
+      if (new Set(attributes).size !== attributes.length) {
+        throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_ATTRIBUTES_MUST_BE_UNIQUE)
+      }
+      const productId = (req as Request).params?.productId
+      const [product, duplicatedProduct] = await Promise.all([
+        productId ? databaseService.products.findOne({ _id: new ObjectId(productId) }) : null,
+        databaseService.products.findOne({
+          'variants.sku': { $in: skus },
+          deletedAt: null,
+          ...(productId && { _id: { $ne: new ObjectId(productId) } })
+        })
+      ])
+      if (duplicatedProduct) {
+        throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_SKU_ALREADY_EXISTS)
+      }
+      const variantIds = (product?.variants || []).map((variant) => variant._id.toString())
+      if (value.some((variant) => variant._id !== undefined && !variantIds.includes(variant._id))) {
+        throw new Error(PRODUCT_MESSAGES.PRODUCT_VARIANT_NOT_FOUND)
+      }
+      const colorIds = [...new Set(value.filter((variant) => variant.colorId).map((variant) => variant.colorId))]
+      const totalColors = await databaseService.colors.countDocuments({
+        _id: { $in: colorIds.map((colorId) => new ObjectId(colorId)) }
+      })
+      if (totalColors !== colorIds.length) {
+        throw new Error(PRODUCT_MESSAGES.COLOR_NOT_FOUND)
+      }
+      return true
+    }
+  }
+}
+
 export const photosSchema: ParamSchema = {
   optional: true,
   custom: {
@@ -106,15 +232,78 @@ export const photosSchema: ParamSchema = {
 export const createProductCategoryValidator = validate(
   checkSchema(
     {
+      parentId: {
+        optional: {
+          options: { values: 'null' }
+        },
+        custom: {
+          options: async (value: string, { req }) => {
+            if (typeof value !== 'string' || !ObjectId.isValid(value)) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_PARENT_ID_IS_INVALID)
+            }
+            const parent = await databaseService.productCategories.findOne({
+              _id: new ObjectId(value),
+              deletedAt: null
+            })
+            if (!parent) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_PARENT_NOT_FOUND)
+            }
+            // Không cho chuyển danh mục vào chính nó hoặc danh mục con của nó để tránh tạo vòng lặp
+            const categoryId = (req as Request).params?.productCategoryId
+            if (categoryId) {
+              const categoryIds = await productService.getCategoryIds(categoryId)
+              if (categoryIds.some((id) => id.equals(value))) {
+                throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_PARENT_CAN_NOT_BE_ITSELF_OR_DESCENDANT)
+              }
+            }
+            return true
+          }
+        }
+      },
       name: {
         trim: true,
         notEmpty: {
           errorMessage: PRODUCT_MESSAGES.PRODUCT_CATEGORY_NAME_IS_REQUIRED
         }
       },
+      slug: {
+        trim: true,
+        custom: {
+          options: async (value: string | undefined, { req }) => {
+            const categoryId = (req as Request).params?.productCategoryId
+            // Khi cập nhật mà không gửi slug thì giữ nguyên slug cũ
+            if (!value && categoryId) {
+              return true
+            }
+            const slug = value || slugify(req.body.name || '')
+            if (!SLUG_REGEX.test(slug)) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_SLUG_IS_INVALID)
+            }
+            const category = await databaseService.productCategories.findOne({
+              slug,
+              ...(categoryId && { _id: { $ne: new ObjectId(categoryId) } })
+            })
+            if (category) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_SLUG_ALREADY_EXISTS)
+            }
+            return true
+          }
+        }
+      },
       description: {
         optional: true,
         trim: true
+      },
+      order: {
+        optional: true,
+        custom: {
+          options: (value) => {
+            if (!Number.isInteger(value) || value < 0) {
+              throw new Error(PRODUCT_MESSAGES.PRODUCT_CATEGORY_ORDER_MUST_BE_AN_INT_GREATER_THAN_OR_EQUAL_ZERO)
+            }
+            return true
+          }
+        }
       }
     },
     ['body']
@@ -153,6 +342,36 @@ export const createBrandValidator = validate(
   )
 )
 
+export const colorIdValidator = validate(
+  checkSchema(
+    {
+      colorId: colorIdSchema
+    },
+    ['params']
+  )
+)
+
+export const createColorValidator = validate(
+  checkSchema(
+    {
+      name: {
+        trim: true,
+        notEmpty: {
+          errorMessage: PRODUCT_MESSAGES.COLOR_NAME_IS_REQUIRED
+        }
+      },
+      hexCode: {
+        trim: true,
+        matches: {
+          options: HEX_COLOR_REGEX,
+          errorMessage: PRODUCT_MESSAGES.COLOR_HEX_CODE_IS_INVALID
+        }
+      }
+    },
+    ['body']
+  )
+)
+
 export const createProductValidator = validate(
   checkSchema(
     {
@@ -191,8 +410,11 @@ export const createProductValidator = validate(
         }
       },
       photos: photosSchema,
+      variants: variantsSchema,
       availableCount: {
         notEmpty: {
+          // Sản phẩm có phiên bản thì giá và số lượng được tính từ các phiên bản
+          if: (_: unknown, { req }: Meta) => !hasVariants(req.body),
           errorMessage: PRODUCT_MESSAGES.PRODUCT_AVAILABEL_COUNT_IS_REQUIRED
         },
         custom: {
@@ -209,6 +431,8 @@ export const createProductValidator = validate(
       },
       price: {
         notEmpty: {
+          // Sản phẩm có phiên bản thì giá và số lượng được tính từ các phiên bản
+          if: (_: unknown, { req }: Meta) => !hasVariants(req.body),
           errorMessage: PRODUCT_MESSAGES.PRODUCT_PRICE_IS_REQUIRED
         },
         custom: {
@@ -248,7 +472,8 @@ export const createProductValidator = validate(
               throw new Error(PRODUCT_MESSAGES.PRODUCT_DISCOUNT_VALUE_MUST_BE_GREATER_THAN_OR_EQUAL_ZERO)
             }
             const discountType = req.body.discountType || ProductDiscountType.Money
-            const price = req.body.price
+            // Sản phẩm có phiên bản thì mức giảm không được vượt quá giá của phiên bản rẻ nhất
+            const price = hasVariants(req.body) ? getVariantsSummary(req.body.variants)?.price : req.body.price
             switch (discountType) {
               case ProductDiscountType.Money:
                 if (value > price) {
@@ -291,7 +516,7 @@ export const productIdValidator = validate(
                 status: HttpStatusCode.BadRequest
               })
             }
-            const product = await databaseService.products.findOne({ _id: new ObjectId(value) })
+            const product = await databaseService.products.findOne({ _id: new ObjectId(value), deletedAt: null })
             if (!product) {
               throw new ErrorWithStatus({
                 message: PRODUCT_MESSAGES.PRODUCT_NOT_FOUND,
@@ -306,3 +531,143 @@ export const productIdValidator = validate(
     ['params']
   )
 )
+
+export const getProductsValidator = validate(
+  checkSchema(
+    {
+      keyword: {
+        optional: true,
+        trim: true
+      },
+      categoryId: {
+        optional: true,
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.PRODUCT_CATEGORY_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      },
+      brandId: {
+        optional: true,
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.BRAND_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      },
+      minPrice: priceFilterSchema,
+      maxPrice: {
+        ...priceFilterSchema,
+        custom: {
+          options: (value: string, { req }) => {
+            const maxPrice = Number(value)
+            if (value === '' || Number.isNaN(maxPrice) || maxPrice < 0) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.PRICE_FILTER_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const { minPrice } = req.query as { minPrice?: string }
+            if (minPrice !== undefined && Number(minPrice) > maxPrice) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.MIN_PRICE_CAN_NOT_BE_GREATER_THAN_MAX_PRICE,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      },
+      minStarPoint: {
+        optional: true,
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            const starPoint = Number(value)
+            if (value === '' || Number.isNaN(starPoint) || starPoint < 1 || starPoint > 5) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.MIN_STAR_POINT_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      },
+      inStock: {
+        optional: true,
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            if (!['true', 'false'].includes(value)) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.IN_STOCK_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      },
+      sortBy: {
+        optional: true,
+        trim: true,
+        custom: {
+          options: (value: string) => {
+            if (!sortByOptions.includes(value)) {
+              throw new ErrorWithStatus({
+                message: PRODUCT_MESSAGES.SORT_BY_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['query']
+  )
+)
+
+export const deletedProductIdValidator = validate(
+  checkSchema(
+    {
+      productId: deletedItemIdSchema((_id) => databaseService.products.findOne({ _id, deletedAt: { $ne: null } }))
+    },
+    ['params']
+  )
+)
+
+export const deletedBrandIdValidator = validate(
+  checkSchema(
+    {
+      brandId: deletedItemIdSchema((_id) => databaseService.brands.findOne({ _id, deletedAt: { $ne: null } }))
+    },
+    ['params']
+  )
+)
+
+export const deletedProductCategoryIdValidator = validate(
+  checkSchema(
+    {
+      productCategoryId: deletedItemIdSchema((_id) =>
+        databaseService.productCategories.findOne({ _id, deletedAt: { $ne: null } })
+      )
+    },
+    ['params']
+  )
+)
@@ -0,0 +1,86 @@
+import { NextFunction, Request, Response } from 'express'
+
+import { RATE_LIMITS } from '~/constants/auth'
+import { HttpStatusCode } from '~/constants/enum'
+import { GENERAL_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { TokenPayload } from '~/models/requests/User.requests'
+import { wrapRequestHandler } from '~/utils/handler'
+import { MemoryRateLimitStore, RateLimitStore } from '~/utils/rateLimit'
+
+type RateLimitRule = {
+  // Tên bộ đếm, ví dụ: ip, email
+  name: string
+  max: number
+  // Giá trị dùng làm khoá của bộ đếm, luật bị bỏ qua khi không lấy được giá trị
+  getKey: (req: Request) => string | undefined
+}
+
+const defaultRateLimitStore: RateLimitStore = new MemoryRateLimitStore()
+
+const byIp = (req: Request) => req.ip
+
+const byEmail = (req: Request) => {
+  const { email } = req.body
+  return typeof email === 'string' && email ? email.trim().toLowerCase() : undefined
+}
+
+// Dùng sau accessTokenValidator
+const byUserId = (req: Request) => (req.decodedAuthorization as TokenPayload | undefined)?.userId
+
+export const rateLimit = ({
+  prefix,
+  windowMs,
+  rules,
+  store = defaultRateLimitStore
+}: {
+  prefix: string
+  windowMs: number
+  rules: RateLimitRule[]
+  store?: RateLimitStore
+}) => {
+  return wrapRequestHandler(async (req: Request, res: Response, next: NextFunction) => {
+    for (const { name, max, getKey } of rules) {
+      const key = getKey(req)
+      if (!key) continue
+      const { count, resetAt } = await store.increment(`${prefix}:${name}:${key}`, windowMs)
+      if (count > max) {
+        const retryAfter = Math.max(Math.ceil((resetAt.getTime() - Date.now()) / 1000), 1)
+        res.setHeader('Retry-After', retryAfter)
+        throw new ErrorWithStatus({
+          message: GENERAL_MESSAGES.TOO_MANY_REQUESTS,
+          status: HttpStatusCode.TooManyRequests
+        })
+      }
+    }
+    next()
+  })
+}
+
+export const loginRateLimiter = rateLimit({
+  prefix: 'login',
+  windowMs: RATE_LIMITS.LOGIN.windowMs,
+  rules: [
+    { name: 'ip', max: RATE_LIMITS.LOGIN.maxPerIp, getKey: byIp },
+    { name: 'email', max: RATE_LIMITS.LOGIN.maxPerAccount, getKey: byEmail }
+  ]
+})
+
+export const forgotPasswordRateLimiter = rateLimit({
+  prefix: 'forgot-password',
+  windowMs: RATE_LIMITS.FORGOT_PASSWORD.windowMs,
+  rules: [
+    { name: 'ip', max: RATE_LIMITS.FORGOT_PASSWORD.maxPerIp, getKey: byIp },
+    { name: 'email', max: RATE_LIMITS.FORGOT_PASSWORD.maxPerAccount, getKey: byEmail }
+  ]
+})
+
+// Email cần xác minh là email của người dùng đang đăng nhập nên đếm theo userId
+export const resendEmailVerifyRateLimiter = rateLimit({
+  prefix: 'resend-email-verify',
+  windowMs: RATE_LIMITS.RESEND_EMAIL_VERIFY.windowMs,
+  rules: [
+    { name: 'ip', max: RATE_LIMITS.RESEND_EMAIL_VERIFY.maxPerIp, getKey: byIp },
+    { name: 'user', max: RATE_LIMITS.RESEND_EMAIL_VERIFY.maxPerAccount, getKey: byUserId }
+  ]
+})
@@ -0,0 +1,160 @@
+import { NextFunction, Request, Response } from 'express'
+import { checkSchema } from 'express-validator'
+import { ObjectId } from 'mongodb'
+
+import { HttpStatusCode, Permission, UserRole } from '~/constants/enum'
+import { ROLE_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { RoleIdReqParams } from '~/models/requests/Role.requests'
+import { TokenPayload } from '~/models/requests/User.requests'
+import databaseService from '~/services/database.services'
+import roleService from '~/services/roles.services'
+import { validate } from '~/utils/validation'
+
+const permissions = Object.values(Permission) as string[]
+
+// Người dùng chỉ được cấp những quyền mà chính họ đang có, tránh tự nâng quyền thông qua vai trò
+const checkGrantablePermissions = async ({ req, permissions }: { req: Request; permissions: Permission[] }) => {
+  const { userId, role } = req.decodedAuthorization as TokenPayload
+  const isAllowed = await roleService.hasPermissions({ userId, role, permissions })
+  if (!isAllowed) {
+    throw new ErrorWithStatus({
+      message: ROLE_MESSAGES.CAN_NOT_GRANT_MISSING_PERMISSIONS,
+      status: HttpStatusCode.Forbidden
+    })
+  }
+}
+
+export const roleIdValidator = validate(
+  checkSchema(
+    {
+      roleId: {
+        trim: true,
+        custom: {
+          options: async (value: string) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: ROLE_MESSAGES.ROLE_ID_IS_REQUIRED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: ROLE_MESSAGES.ROLE_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const role = await databaseService.roles.findOne({ _id: new ObjectId(value) })
+            if (!role) {
+              throw new ErrorWithStatus({
+                message: ROLE_MESSAGES.ROLE_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
+export const createRoleValidator = validate(
+  checkSchema(
+    {
+      name: {
+        trim: true,
+        notEmpty: {
+          errorMessage: ROLE_MESSAGES.ROLE_NAME_IS_REQUIRED
+        },
+        custom: {
+          options: async (value: string, { req }) => {
+            const role = await databaseService.roles.findOne({ name: value })
+            if (role && role._id.toString() !== (req as Request).params?.roleId) {
+              throw new Error(ROLE_MESSAGES.ROLE_NAME_ALREADY_EXISTS)
+            }
+            return true
+          }
+        }
+      },
+      description: {
+        optional: true,
+        trim: true
+      },
+      permissions: {
+        isArray: {
+          errorMessage: ROLE_MESSAGES.PERMISSIONS_MUST_BE_AN_ARRAY
+        },
+        custom: {
+          options: async (value: string[], { req }) => {
+            if (value.some((item) => !permissions.includes(item))) {
+              throw new Error(ROLE_MESSAGES.PERMISSION_IS_INVALID)
+            }
+            await checkGrantablePermissions({ req: req as Request, permissions: value as Permission[] })
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+export const assignRolesValidator = validate(
+  checkSchema(
+    {
+      roleIds: {
+        isArray: {
+          errorMessage: ROLE_MESSAGES.ROLE_IDS_MUST_BE_AN_ARRAY
+        },
+        custom: {
+          options: async (value: string[], { req }) => {
+            if (value.some((item) => !ObjectId.isValid(item))) {
+              throw new Error(ROLE_MESSAGES.ROLE_ID_IS_INVALID)
+            }
+            const roleIds = [...new Set(value)]
+            const totalRoles = await databaseService.roles.countDocuments({
+              _id: {
+                $in: roleIds.map((item) => new ObjectId(item))
+              }
+            })
+            if (totalRoles !== roleIds.length) {
+              throw new Error(ROLE_MESSAGES.ROLE_NOT_FOUND)
+            }
+            const roles = await databaseService.roles
+              .find({ _id: { $in: roleIds.map((item) => new ObjectId(item)) } })
+              .toArray()
+            await checkGrantablePermissions({
+              req: req as Request,
+              permissions: roles.flatMap((role) => role.permissions)
+            })
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+// Không cho sửa vai trò đang được gán cho chính mình, trừ quản trị viên vốn đã có toàn quyền
+export const notOwnRoleValidator = async (req: Request<RoleIdReqParams>, _: Response, next: NextFunction) => {
+  const { userId, role } = req.decodedAuthorization as TokenPayload
+  if (role === UserRole.Admin) {
+    return next()
+  }
+  const user = await databaseService.users.findOne(
+    { _id: new ObjectId(userId), roleIds: new ObjectId(req.params.roleId) },
+    { projection: { _id: 1 } }
+  )
+  if (user) {
+    return next(
+      new ErrorWithStatus({
+        message: ROLE_MESSAGES.CAN_NOT_UPDATE_OWN_ROLE,
+        status: HttpStatusCode.Forbidden
+      })
+    )
+  }
+  next()
+}
@@ -5,17 +5,25 @@ import capitalize from 'lodash/capitalize'
 import { ObjectId } from 'mongodb'
 
 import { ENV_CONFIG } from '~/constants/config'
-import { HttpStatusCode, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+import { HttpStatusCode, Permission, SocialProvider, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
 import { USER_MESSAGES } from '~/constants/message'
 import { VIET_NAM_PHONE_NUMBER_REGEX } from '~/constants/regex'
 import { ErrorWithStatus } from '~/models/Errors'
-import { TokenPayload } from '~/models/requests/User.requests'
+import { TokenPayload, UserIdReqParams } from '~/models/requests/User.requests'
 import databaseService from '~/services/database.services'
+import roleService from '~/services/roles.services'
+import settingService from '~/services/settings.services'
 import userService from '~/services/users.services'
-import { hashPassword } from '~/utils/crypto'
+import { hashToken, verifyPassword } from '~/utils/crypto'
+import { wrapRequestHandler } from '~/utils/handler'
 import { verifyToken } from '~/utils/jwt'
+import { oauthProviders } from '~/utils/oauth'
+import { numberEnumToArray } from '~/utils/utils'
 import { validate } from '~/utils/validation'
 
+const userStatuses = numberEnumToArray(UserStatus)
+const userRoles = numberEnumToArray(UserRole)
+
 const emailSchema: ParamSchema = {
   trim: true,
   notEmpty: {
@@ -88,6 +96,19 @@ export const accessTokenValidator = validate(
                 status: HttpStatusCode.Unauthorized
               })
             }
+            // Token được ký trước khi đổi mật khẩu, đổi vai trò, khoá tài khoản hoặc thuộc phiên đã bị thu hồi thì không còn hợp lệ
+            const { userId, sessionId, tokenVersion } = (req as Request).decodedAuthorization as TokenPayload
+            const currentTokenVersion = await userService.getTokenVersion(userId)
+            if (
+              currentTokenVersion === null ||
+              currentTokenVersion !== (tokenVersion || 0) ||
+              (sessionId && !(await userService.isSessionActive(sessionId)))
+            ) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.ACCESS_TOKEN_IS_REVOKED,
+                status: HttpStatusCode.Unauthorized
+              })
+            }
           }
         }
       }
@@ -96,6 +117,16 @@ export const accessTokenValidator = validate(
   )
 )
 
+// Chỉ xác thực access token khi request có gửi kèm, dùng cho các route công khai trả thêm dữ liệu theo người dùng
+export const isUserLoggedInValidator = (middleware: (req: Request, res: Response, next: NextFunction) => void) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization) {
+      return middleware(req, res, next)
+    }
+    next()
+  }
+}
+
 export const refreshTokenValidator = validate(
   checkSchema(
     {
@@ -112,7 +143,7 @@ export const refreshTokenValidator = validate(
             try {
               const [decodedRefreshToken, refreshToken] = await Promise.all([
                 verifyToken({ token: value, secretOrPublicKey: ENV_CONFIG.JWT_REFRESH_TOKEN_SECRET }),
-                databaseService.refreshTokens.findOne({ token: value })
+                databaseService.refreshTokens.findOne({ tokenHash: hashToken(value) })
               ])
               if (!refreshToken) {
                 throw new ErrorWithStatus({
@@ -151,19 +182,66 @@ export const verifiedUserValidator = (req: Request, _: Response, next: NextFunct
   next()
 }
 
-export const isAdminValidator = (req: Request, _: Response, next: NextFunction) => {
-  const { role } = req.decodedAuthorization as TokenPayload
-  if (role !== UserRole.Admin) {
-    next(
-      new ErrorWithStatus({
-        message: USER_MESSAGES.PERMISSION_DENIED,
-        status: HttpStatusCode.Forbidden
-      })
-    )
-  }
-  next()
+export const requirePermission = (...permissions: Permission[]) => {
+  return wrapRequestHandler(async (req: Request, _: Response, next: NextFunction) => {
+    const { userId, role } = req.decodedAuthorization as TokenPayload
+    const isAllowed = await roleService.hasPermissions({ userId, role, permissions })
+    if (!isAllowed) {
+      return next(
+        new ErrorWithStatus({
+          message: USER_MESSAGES.PERMISSION_DENIED,
+          status: HttpStatusCode.Forbidden
+        })
+      )
+    }
+    const isTwoFactorSetupRequired = await userService.isTwoFactorSetupRequired({ userId, role })
+    if (isTwoFactorSetupRequired) {
+      return next(
+        new ErrorWithStatus({
+          message: USER_MESSAGES.TWO_FACTOR_SETUP_REQUIRED,
+          status: HttpStatusCode.Forbidden
+        })
+      )
+    }
+    next()
+  })
 }
 
+export const userIdValidator = validate(
+  checkSchema(
+    {
+      userId: {
+        trim: true,
+        custom: {
+          options: async (value: string) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.USER_ID_IS_REQUIRED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.USER_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const user = await databaseService.users.findOne({ _id: new ObjectId(value) })
+            if (!user) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.USER_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
 export const registerValidator = validate(
   checkSchema(
     {
@@ -195,13 +273,99 @@ export const loginValidator = validate(
         custom: {
           options: async (value, { req }) => {
             const email = req.body.email
-            const user = await userService.aggregateUserDetail({
-              email,
-              password: hashPassword(value)
+            const userWithPassword = await databaseService.users.findOne({ email })
+            if (!userWithPassword) {
+              throw new Error(USER_MESSAGES.PASSWORD_OR_EMAIL_IS_INCORRECT)
+            }
+            if (userWithPassword.lockedUntil && userWithPassword.lockedUntil > new Date()) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.ACCOUNT_IS_TEMPORARILY_LOCKED,
+                status: HttpStatusCode.Locked
+              })
+            }
+            const { isValid, needsRehash } = await verifyPassword({
+              password: value,
+              passwordHash: userWithPassword.password
             })
-            if (!user) {
+            if (!isValid) {
+              await userService.recordFailedLogin(userWithPassword._id)
               throw new Error(USER_MESSAGES.PASSWORD_OR_EMAIL_IS_INCORRECT)
             }
+            if (userWithPassword.failedLoginAttempts || userWithPassword.lockedUntil) {
+              await userService.resetFailedLogins(userWithPassword._id)
+            }
+            if (needsRehash) {
+              await userService.rehashPassword({ password: value, userId: userWithPassword._id })
+            }
+            const user = await userService.aggregateUserDetail({ _id: userWithPassword._id })
+            if (user.status === UserStatus.Inactive) {
+              throw new Error(USER_MESSAGES.USER_IS_INACTIVE)
+            }
+            ;(req as Request).user = user
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+const twoFactorCodeSchema: ParamSchema = {
+  trim: true,
+  notEmpty: {
+    errorMessage: USER_MESSAGES.TWO_FACTOR_CODE_IS_REQUIRED
+  }
+}
+
+// Mã xác thực được kiểm tra cùng lúc với token thử thách, nhập sai cũng được tính vào số lần đăng nhập thất bại
+export const loginTwoFactorValidator = validate(
+  checkSchema(
+    {
+      twoFactorToken: {
+        trim: true,
+        custom: {
+          options: async (value: string, { req }) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.TWO_FACTOR_TOKEN_IS_REQUIRED,
+                status: HttpStatusCode.Unauthorized
+              })
+            }
+            try {
+              const decodedTwoFactorToken = await verifyToken({
+                token: value,
+                secretOrPublicKey: ENV_CONFIG.JWT_TWO_FACTOR_TOKEN_SECRET
+              })
+              ;(req as Request).decodedTwoFactorToken = decodedTwoFactorToken
+            } catch (error) {
+              throw new ErrorWithStatus({
+                message: capitalize((error as JsonWebTokenError).message),
+                status: HttpStatusCode.Unauthorized
+              })
+            }
+            const code = req.body.code
+            if (typeof code !== 'string' || !code.trim()) return true
+            const { userId } = (req as Request).decodedTwoFactorToken as TokenPayload
+            const userWithSecret = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+            if (!userWithSecret || !userWithSecret.twoFactorEnabled) {
+              throw new Error(USER_MESSAGES.TWO_FACTOR_IS_NOT_ENABLED)
+            }
+            if (userWithSecret.lockedUntil && userWithSecret.lockedUntil > new Date()) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.ACCOUNT_IS_TEMPORARILY_LOCKED,
+                status: HttpStatusCode.Locked
+              })
+            }
+            const isValid = await userService.verifyTwoFactorCode({ user: userWithSecret, code: code.trim() })
+            if (!isValid) {
+              await userService.recordFailedLogin(userWithSecret._id)
+              throw new Error(USER_MESSAGES.TWO_FACTOR_CODE_IS_INVALID)
+            }
+            if (userWithSecret.failedLoginAttempts || userWithSecret.lockedUntil) {
+              await userService.resetFailedLogins(userWithSecret._id)
+            }
+            const user = await userService.aggregateUserDetail({ _id: userWithSecret._id })
             if (user.status === UserStatus.Inactive) {
               throw new Error(USER_MESSAGES.USER_IS_INACTIVE)
             }
@@ -209,6 +373,189 @@ export const loginValidator = validate(
             return true
           }
         }
+      },
+      code: twoFactorCodeSchema
+    },
+    ['body']
+  )
+)
+
+export const enrollTwoFactorValidator = wrapRequestHandler(async (req: Request, _: Response, next: NextFunction) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  const user = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+  if (!user) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.USER_NOT_FOUND,
+        status: HttpStatusCode.NotFound
+      })
+    )
+  }
+  if (user.twoFactorEnabled) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.TWO_FACTOR_ALREADY_ENABLED,
+        status: HttpStatusCode.BadRequest
+      })
+    )
+  }
+  next()
+})
+
+// Bước xác minh chỉ chấp nhận mã TOTP để chắc chắn ứng dụng xác thực đã được cài đặt đúng
+export const verifyTwoFactorSetupValidator = validate(
+  checkSchema(
+    {
+      code: {
+        ...twoFactorCodeSchema,
+        custom: {
+          options: async (value: string, { req }) => {
+            const { userId } = (req as Request).decodedAuthorization as TokenPayload
+            const user = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+            if (!user || !user.twoFactorSecret) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.TWO_FACTOR_IS_NOT_ENROLLED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (user.twoFactorEnabled) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.TWO_FACTOR_ALREADY_ENABLED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const isValid = await userService.verifyTwoFactorCode({ user, code: value, allowRecoveryCode: false })
+            if (!isValid) {
+              throw new Error(USER_MESSAGES.TWO_FACTOR_CODE_IS_INVALID)
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+export const disableTwoFactorValidator = validate(
+  checkSchema(
+    {
+      code: {
+        ...twoFactorCodeSchema,
+        custom: {
+          options: async (value: string, { req }) => {
+            const { userId, role } = (req as Request).decodedAuthorization as TokenPayload
+            const user = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+            if (!user || !user.twoFactorEnabled) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.TWO_FACTOR_IS_NOT_ENABLED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (role === UserRole.Admin) {
+              const { requireAdminTwoFactor } = await settingService.get()
+              if (requireAdminTwoFactor) {
+                throw new ErrorWithStatus({
+                  message: USER_MESSAGES.TWO_FACTOR_CAN_NOT_BE_DISABLED,
+                  status: HttpStatusCode.Forbidden
+                })
+              }
+            }
+            const isValid = await userService.verifyTwoFactorCode({ user, code: value })
+            if (!isValid) {
+              throw new Error(USER_MESSAGES.TWO_FACTOR_CODE_IS_INVALID)
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+export const updateTwoFactorPolicyValidator = validate(
+  checkSchema(
+    {
+      requireAdminTwoFactor: {
+        isBoolean: {
+          options: {
+            strict: true
+          },
+          errorMessage: USER_MESSAGES.REQUIRE_ADMIN_TWO_FACTOR_MUST_BE_A_BOOLEAN
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+const socialProviders = Object.values(SocialProvider)
+
+export const oauthProviderValidator = validate(
+  checkSchema(
+    {
+      provider: {
+        trim: true,
+        custom: {
+          options: (value: SocialProvider) => {
+            if (!socialProviders.includes(value) || !oauthProviders[value].isAvailable) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.OAUTH_PROVIDER_IS_INVALID,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
+export const oauthLoginValidator = validate(
+  checkSchema(
+    {
+      code: {
+        trim: true,
+        notEmpty: {
+          errorMessage: USER_MESSAGES.OAUTH_CODE_IS_REQUIRED
+        }
+      },
+      nonce: {
+        isString: {
+          errorMessage: USER_MESSAGES.OAUTH_NONCE_IS_REQUIRED
+        },
+        notEmpty: {
+          errorMessage: USER_MESSAGES.OAUTH_NONCE_IS_REQUIRED
+        }
+      },
+      state: {
+        trim: true,
+        notEmpty: {
+          errorMessage: USER_MESSAGES.OAUTH_STATE_IS_REQUIRED
+        },
+        custom: {
+          options: async (value: string, { req }) => {
+            const decodedStateToken = await verifyToken({
+              token: value,
+              secretOrPublicKey: ENV_CONFIG.JWT_OAUTH_STATE_TOKEN_SECRET
+            }).catch(() => null)
+            if (
+              !decodedStateToken ||
+              decodedStateToken.provider !== req.params?.provider ||
+              typeof req.body.nonce !== 'string' ||
+              decodedStateToken.nonceHash !== hashToken(req.body.nonce)
+            ) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.OAUTH_STATE_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            return true
+          }
+        }
       }
     },
     ['body']
@@ -354,11 +701,11 @@ export const changePasswordValidator = validate(
         custom: {
           options: async (value: string, { req }) => {
             const { userId } = (req as Request).decodedAuthorization as TokenPayload
-            const user = await databaseService.users.findOne({
-              _id: new ObjectId(userId),
-              password: hashPassword(value)
-            })
-            if (!user) {
+            const user = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+            const { isValid } = user
+              ? await verifyPassword({ password: value, passwordHash: user.password })
+              : { isValid: false }
+            if (!isValid) {
               throw new Error(USER_MESSAGES.OLD_PASSWORD_IS_INCORRECT)
             }
             return true
@@ -402,8 +749,141 @@ export const updateMeValidator = validate(
         isMongoId: {
           errorMessage: USER_MESSAGES.AVATAR_IS_INVALID
         }
+      },
+      receiveNotificationEmails: {
+        optional: true,
+        isBoolean: {
+          options: {
+            strict: true
+          },
+          errorMessage: USER_MESSAGES.RECEIVE_NOTIFICATION_EMAILS_MUST_BE_A_BOOLEAN
+        }
       }
     },
     ['body']
   )
 )
+
+export const notSelfValidator = (req: Request<UserIdReqParams>, _: Response, next: NextFunction) => {
+  const { userId } = req.decodedAuthorization as TokenPayload
+  if (req.params.userId === userId) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.CAN_NOT_UPDATE_YOURSELF,
+        status: HttpStatusCode.Forbidden
+      })
+    )
+  }
+  next()
+}
+
+// Chỉ quản trị viên mới được đổi trạng thái, vai trò của tài khoản quản trị hoặc cấp vai trò quản trị
+export const adminAccountValidator = async (req: Request<UserIdReqParams>, _: Response, next: NextFunction) => {
+  const { role } = req.decodedAuthorization as TokenPayload
+  if (role === UserRole.Admin) {
+    return next()
+  }
+  const user = await databaseService.users.findOne(
+    { _id: new ObjectId(req.params.userId) },
+    { projection: { role: 1 } }
+  )
+  if (user?.role === UserRole.Admin || req.body.role === UserRole.Admin) {
+    return next(
+      new ErrorWithStatus({
+        message: USER_MESSAGES.ONLY_ADMIN_CAN_UPDATE_ADMIN,
+        status: HttpStatusCode.Forbidden
+      })
+    )
+  }
+  next()
+}
+
+export const updateUserStatusValidator = validate(
+  checkSchema(
+    {
+      status: {
+        custom: {
+          options: (value) => {
+            if (value === undefined) {
+              throw new Error(USER_MESSAGES.USER_STATUS_IS_REQUIRED)
+            }
+            if (!userStatuses.includes(value)) {
+              throw new Error(USER_MESSAGES.USER_STATUS_IS_INVALID)
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+export const updateUserRoleValidator = validate(
+  checkSchema(
+    {
+      role: {
+        custom: {
+          options: (value) => {
+            if (value === undefined) {
+              throw new Error(USER_MESSAGES.USER_ROLE_IS_REQUIRED)
+            }
+            if (!userRoles.includes(value)) {
+              throw new Error(USER_MESSAGES.USER_ROLE_IS_INVALID)
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
+
+export const getCustomersValidator = validate(
+  checkSchema(
+    {
+      keyword: {
+        optional: true,
+        isString: {
+          errorMessage: USER_MESSAGES.KEYWORD_MUST_BE_A_STRING
+        },
+        trim: true
+      }
+    },
+    ['query']
+  )
+)
+
+export const sessionIdValidator = validate(
+  checkSchema(
+    {
+      sessionId: {
+        trim: true,
+        custom: {
+          options: async (value: string, { req }) => {
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.SESSION_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const { userId } = (req as Request).decodedAuthorization as TokenPayload
+            const refreshToken = await databaseService.refreshTokens.findOne({
+              userId: new ObjectId(userId),
+              sessionId: new ObjectId(value)
+            })
+            if (!refreshToken) {
+              throw new ErrorWithStatus({
+                message: USER_MESSAGES.SESSION_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
@@ -0,0 +1,181 @@
+import { Request } from 'express'
+import { ParamSchema, checkSchema } from 'express-validator'
+import { ObjectId } from 'mongodb'
+
+import { HttpStatusCode, VoucherDiscountType, VoucherStatus } from '~/constants/enum'
+import { VOUCHER_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import databaseService from '~/services/database.services'
+import { numberEnumToArray } from '~/utils/utils'
+import { validate } from '~/utils/validation'
+
+const voucherDiscountTypes = numberEnumToArray(VoucherDiscountType)
+const voucherStatuses = numberEnumToArray(VoucherStatus)
+
+const positiveIntSchema = ({
+  notIntMessage,
+  notPositiveMessage
+}: {
+  notIntMessage: string
+  notPositiveMessage: string
+}): ParamSchema => ({
+  optional: true,
+  custom: {
+    options: (value) => {
+      if (!Number.isInteger(value)) {
+        throw new Error(notIntMessage)
+      }
+      if (value <= 0) {
+        throw new Error(notPositiveMessage)
+      }
+      return true
+    }
+  }
+})
+
+export const voucherIdValidator = validate(
+  checkSchema(
+    {
+      voucherId: {
+        trim: true,
+        custom: {
+          options: async (value: string) => {
+            if (!value) {
+              throw new ErrorWithStatus({
+                message: VOUCHER_MESSAGES.VOUCHER_ID_IS_REQUIRED,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            if (!ObjectId.isValid(value)) {
+              throw new ErrorWithStatus({
+                message: VOUCHER_MESSAGES.VOUCHER_ID_IS_INVALID,
+                status: HttpStatusCode.BadRequest
+              })
+            }
+            const voucher = await databaseService.vouchers.findOne({ _id: new ObjectId(value) })
+            if (!voucher) {
+              throw new ErrorWithStatus({
+                message: VOUCHER_MESSAGES.VOUCHER_NOT_FOUND,
+                status: HttpStatusCode.NotFound
+              })
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['params']
+  )
+)
+
+export const createVoucherValidator = validate(
+  checkSchema(
+    {
+      code: {
+        trim: true,
+        toUpperCase: true,
+        notEmpty: {
+          errorMessage: VOUCHER_MESSAGES.VOUCHER_CODE_IS_REQUIRED
+        },
+        custom: {
+          options: async (value: string, { req }) => {
+            const voucher = await databaseService.vouchers.findOne({ code: value })
+            if (voucher && voucher._id.toString() !== (req as Request).params?.voucherId) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_CODE_ALREADY_EXISTS)
+            }
+            return true
+          }
+        }
+      },
+      description: {
+        optional: true,
+        trim: true
+      },
+      discountType: {
+        isIn: {
+          options: [voucherDiscountTypes],
+          errorMessage: VOUCHER_MESSAGES.VOUCHER_DISCOUNT_TYPE_IS_INVALID
+        }
+      },
+      discountValue: {
+        custom: {
+          options: (value, { req }) => {
+            if (value === undefined) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_DISCOUNT_VALUE_IS_REQUIRED)
+            }
+            if (!Number.isInteger(value)) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_DISCOUNT_VALUE_MUST_BE_AN_INT)
+            }
+            if (value <= 0) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_DISCOUNT_VALUE_MUST_BE_GREATER_THAN_ZERO)
+            }
+            if (req.body.discountType === VoucherDiscountType.Percent && value > 100) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_DISCOUNT_VALUE_CAN_NOT_BE_GREATER_THAN_100)
+            }
+            return true
+          }
+        }
+      },
+      minOrderValue: {
+        optional: true,
+        custom: {
+          options: (value) => {
+            if (!Number.isInteger(value)) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_MIN_ORDER_VALUE_MUST_BE_AN_INT)
+            }
+            if (value < 0) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_MIN_ORDER_VALUE_MUST_BE_GREATER_THAN_OR_EQUAL_ZERO)
+            }
+            return true
+          }
+        }
+      },
+      maxDiscount: positiveIntSchema({
+        notIntMessage: VOUCHER_MESSAGES.VOUCHER_MAX_DISCOUNT_MUST_BE_AN_INT,
+        notPositiveMessage: VOUCHER_MESSAGES.VOUCHER_MAX_DISCOUNT_MUST_BE_GREATER_THAN_ZERO
+      }),
+      usageLimit: positiveIntSchema({
+        notIntMessage: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_MUST_BE_AN_INT,
+        notPositiveMessage: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_MUST_BE_GREATER_THAN_ZERO
+      }),
+      usageLimitPerUser: positiveIntSchema({
+        notIntMessage: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_MUST_BE_AN_INT,
+        notPositiveMessage: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_MUST_BE_GREATER_THAN_ZERO
+      }),
+      status: {
+        optional: true,
+        isIn: {
+          options: [voucherStatuses],
+          errorMessage: VOUCHER_MESSAGES.VOUCHER_STATUS_IS_INVALID
+        }
+      },
+      startsAt: {
+        isISO8601: {
+          options: {
+            strict: true,
+            strictSeparator: true
+          },
+          errorMessage: VOUCHER_MESSAGES.VOUCHER_STARTS_AT_IS_INVALID
+        }
+      },
+      expiresAt: {
+        isISO8601: {
+          options: {
+            strict: true,
+            strictSeparator: true
+          },
+          errorMessage: VOUCHER_MESSAGES.VOUCHER_EXPIRES_AT_IS_INVALID
+        },
+        custom: {
+          options: (value: string, { req }) => {
+            if (new Date(value) <= new Date(req.body.startsAt)) {
+              throw new Error(VOUCHER_MESSAGES.VOUCHER_EXPIRES_AT_MUST_BE_AFTER_STARTS_AT)
+            }
+            return true
+          }
+        }
+      }
+    },
+    ['body']
+  )
+)
@@ -1,5 +1,7 @@
+import { ObjectId } from 'mongodb'
+
 import { HttpStatusCode } from '~/constants/enum'
-import { GENERAL_MESSAGES } from '~/constants/message'
+import { CART_MESSAGES, GENERAL_MESSAGES } from '~/constants/message'
 
 type ErrorsType = Record<
   string,
@@ -27,3 +29,45 @@ export class EntityError extends ErrorWithStatus {
     this.errors = errors
   }
 }
+
+type StockShortagesType = {
+  productId: ObjectId
+  variantId: ObjectId | null
+  name: string | null
+  sku: string | null
+  quantity: number
+  availableCount: number
+}[]
+
+export class StockShortageError extends ErrorWithStatus {
+  shortages: StockShortagesType
+
+  constructor({
+    message = CART_MESSAGES.OUT_OF_STOCK,
+    shortages
+  }: {
+    message?: string
+    shortages: StockShortagesType
+  }) {
+    super({ message, status: HttpStatusCode.Conflict })
+    this.shortages = shortages
+  }
+}
+
+// Số lượng bản ghi đang tham chiếu tới thực thể, theo tên collection
+export type ReferencesType = Record<string, number>
+
+export class ReferencedEntityError extends ErrorWithStatus {
+  references: ReferencesType
+
+  constructor({
+    message = GENERAL_MESSAGES.ENTITY_IS_REFERENCED,
+    references
+  }: {
+    message?: string
+    references: ReferencesType
+  }) {
+    super({ message, status: HttpStatusCode.Conflict })
+    this.references = references
+  }
+}
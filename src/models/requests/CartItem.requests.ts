@@ -1,6 +1,8 @@
 import { ParamsDictionary } from 'express-serve-static-core'
+import { PaymentMethod } from '~/constants/enum'
 
 export type AddToCartReqBody = {
+  variantId?: string
   quantity: number
 }
 
@@ -18,5 +20,6 @@ export type UpdateCartItemQuantityReqBody = {
 
 export type CheckoutReqBody = {
   voucherId?: string
-  totalAmountReduced?: number
+  addressId?: string
+  paymentMethod?: PaymentMethod
 }
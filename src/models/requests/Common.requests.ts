@@ -4,3 +4,8 @@ export type PaginationReqQuery = Query & {
   page?: string
   limit?: string
 }
+
+export type DeleteReqQuery = Query & {
+  // true để xoá kèm các dữ liệu đang tham chiếu tới thực thể
+  force?: string
+}
@@ -0,0 +1,5 @@
+import { ParamsDictionary } from 'express-serve-static-core'
+
+export type FileIdReqParams = ParamsDictionary & {
+  fileId: string
+}
@@ -7,4 +7,9 @@ export type OrderIdReqParams = ParamsDictionary & {
 
 export type UpdateOrderStatusReqBody = {
   status: OrderStatus
+  note?: string
+}
+
+export type CancelOrderReqBody = {
+  note?: string
 }
@@ -1,14 +1,23 @@
 import { ParamsDictionary } from 'express-serve-static-core'
-import { ProductDiscountType, ProductStatus } from '~/constants/enum'
+import { ProductDiscountType, ProductSortBy, ProductStatus } from '~/constants/enum'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
 
 export type CreateProductCategoryReqBody = {
+  parentId?: string | null
   name: string
+  // Không gửi thì được tạo từ tên danh mục
+  slug?: string
   description?: string
+  order?: number
 }
 
 export type UpdateProductCategoryReqBody = {
+  // null để chuyển danh mục lên cấp gốc
+  parentId?: string | null
   name?: string
+  slug?: string
   description?: string
+  order?: number
 }
 
 export type ProductCategoryIdReqParams = ParamsDictionary & {
@@ -25,6 +34,26 @@ export type BrandIdReqParams = ParamsDictionary & {
   brandId: string
 }
 
+export type CreateColorReqBody = {
+  name: string
+  hexCode: string
+}
+
+export type ColorIdReqParams = ParamsDictionary & {
+  colorId: string
+}
+
+export type ProductVariantReqBody = {
+  // Gửi kèm _id để cập nhật phiên bản đã có, giữ liên kết với giỏ hàng và đơn hàng
+  _id?: string
+  sku: string
+  colorId?: string
+  size?: string
+  price: number
+  availableCount: number
+  photos?: string[]
+}
+
 export type CreateProductReqBody = {
   productCategoryId: string
   brandId: string
@@ -32,8 +61,10 @@ export type CreateProductReqBody = {
   description: string
   thumbnail: string
   photos?: string[]
-  availableCount: number
-  price: number
+  // Không bắt buộc khi sản phẩm có phiên bản, khi đó được tính từ các phiên bản
+  availableCount?: number
+  price?: number
+  variants?: ProductVariantReqBody[]
   discountType?: ProductDiscountType
   discountValue?: number
   status?: ProductStatus
@@ -42,3 +73,14 @@ export type CreateProductReqBody = {
 export type ProductIdReqParams = ParamsDictionary & {
   productId: string
 }
+
+export type GetProductsReqQuery = PaginationReqQuery & {
+  keyword?: string
+  categoryId?: string
+  brandId?: string
+  minPrice?: string
+  maxPrice?: string
+  minStarPoint?: string
+  inStock?: string
+  sortBy?: ProductSortBy
+}
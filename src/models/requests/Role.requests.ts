@@ -0,0 +1,12 @@
+import { ParamsDictionary } from 'express-serve-static-core'
+import { Permission } from '~/constants/enum'
+
+export type CreateRoleReqBody = {
+  name: string
+  description?: string
+  permissions: Permission[]
+}
+
+export type RoleIdReqParams = ParamsDictionary & {
+  roleId: string
+}
@@ -1,12 +1,16 @@
+import { ParamsDictionary } from 'express-serve-static-core'
 import { JwtPayload } from 'jsonwebtoken'
-import { TokenType, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+import { SocialProvider, TokenType, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
 
 export type TokenPayload = JwtPayload & {
   tokenType: TokenType
   userId: string
+  sessionId: string
   role: UserRole
   status: UserStatus
   verify: UserVerifyStatus
+  tokenVersion: number
   iat: number
   exp: number
 }
@@ -33,6 +37,29 @@ export type ForgotPasswordTokenReqBody = {
   forgotPasswordToken: string
 }
 
+export type LoginTwoFactorReqBody = {
+  twoFactorToken: string
+  code: string
+}
+
+export type TwoFactorCodeReqBody = {
+  code: string
+}
+
+export type UpdateTwoFactorPolicyReqBody = {
+  requireAdminTwoFactor: boolean
+}
+
+export type OAuthProviderReqParams = ParamsDictionary & {
+  provider: SocialProvider
+}
+
+export type OAuthLoginReqBody = {
+  code: string
+  state: string
+  nonce: string
+}
+
 export type ResetPasswordReqBody = {
   password: string
 }
@@ -45,4 +72,34 @@ export type UpdateMeReqBody = {
   phoneNumber?: string
   fullName?: string
   avatar?: string
+  receiveNotificationEmails?: boolean
+}
+
+export type UserIdReqParams = ParamsDictionary & {
+  userId: string
+}
+
+export type AssignRolesReqBody = {
+  roleIds: string[]
+}
+
+export type UpdateUserStatusReqBody = {
+  status: UserStatus
+}
+
+export type UpdateUserRoleReqBody = {
+  role: UserRole
+}
+
+export type GetCustomersReqQuery = PaginationReqQuery & {
+  keyword?: string
+}
+
+export type SessionIdReqParams = ParamsDictionary & {
+  sessionId: string
+}
+
+export type ClientDevice = {
+  userAgent: string
+  ipAddress: string
 }
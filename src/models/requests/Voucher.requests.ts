@@ -0,0 +1,20 @@
+import { ParamsDictionary } from 'express-serve-static-core'
+import { VoucherDiscountType, VoucherStatus } from '~/constants/enum'
+
+export type CreateVoucherReqBody = {
+  code: string
+  description?: string
+  discountType: VoucherDiscountType
+  discountValue: number
+  minOrderValue?: number
+  maxDiscount?: number
+  usageLimit?: number
+  usageLimitPerUser?: number
+  status?: VoucherStatus
+  startsAt: string
+  expiresAt: string
+}
+
+export type VoucherIdReqParams = ParamsDictionary & {
+  voucherId: string
+}
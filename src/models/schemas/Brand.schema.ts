@@ -6,6 +6,8 @@ type BrandConstructor = {
   name: string
   nation: string
   description?: string
+  deletedAt?: Date | null
+  deletedBy?: ObjectId | null
   createdAt?: Date
   updatedAt?: Date
 }
@@ -16,16 +18,30 @@ export default class Brand {
   name: string
   nation: string
   description: string
+  deletedAt: Date | null
+  deletedBy: ObjectId | null
   createdAt: Date
   updatedAt: Date
 
-  constructor({ _id, userId, name, nation, description, createdAt, updatedAt }: BrandConstructor) {
+  constructor({
+    _id,
+    userId,
+    name,
+    nation,
+    description,
+    deletedAt,
+    deletedBy,
+    createdAt,
+    updatedAt
+  }: BrandConstructor) {
     const date = new Date()
     this._id = _id
     this.userId = userId
     this.name = name
     this.nation = nation
     this.description = description || ''
+    this.deletedAt = deletedAt || null
+    this.deletedBy = deletedBy || null
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
@@ -4,6 +4,7 @@ import { CartItemStatus } from '~/constants/enum'
 type CartItemConstructor = {
   _id?: ObjectId
   productId: ObjectId
+  variantId?: ObjectId | null
   userId: ObjectId
   quantity: number
   status?: CartItemStatus
@@ -14,16 +15,19 @@ type CartItemConstructor = {
 export default class CartItem {
   _id?: ObjectId
   productId: ObjectId
+  // Phiên bản được chọn, null với sản phẩm không có phiên bản
+  variantId: ObjectId | null
   userId: ObjectId
   quantity: number
   status: CartItemStatus
   createdAt: Date
   updatedAt: Date
 
-  constructor({ _id, productId, userId, quantity, status, createdAt, updatedAt }: CartItemConstructor) {
+  constructor({ _id, productId, variantId, userId, quantity, status, createdAt, updatedAt }: CartItemConstructor) {
     const date = new Date()
     this._id = _id
     this.productId = productId
+    this.variantId = variantId || null
     this.userId = userId
     this.quantity = quantity
     this.status = status || CartItemStatus.InCart
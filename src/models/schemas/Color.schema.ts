@@ -0,0 +1,30 @@
+import { ObjectId } from 'mongodb'
+
+type ColorConstructor = {
+  _id?: ObjectId
+  userId: ObjectId
+  name: string
+  hexCode: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export default class Color {
+  _id?: ObjectId
+  userId: ObjectId
+  name: string
+  // Mã màu dạng #RRGGBB để hiển thị ô màu ở phía client
+  hexCode: string
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({ _id, userId, name, hexCode, createdAt, updatedAt }: ColorConstructor) {
+    const date = new Date()
+    this._id = _id
+    this.userId = userId
+    this.name = name
+    this.hexCode = hexCode
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
@@ -0,0 +1,92 @@
+import { ObjectId } from 'mongodb'
+
+import { JobStatus, JobType } from '~/constants/enum'
+import { EmailTemplateData, EmailTemplateName } from '~/utils/email'
+
+type SendEmailPayload = {
+  [K in EmailTemplateName]: {
+    template: K
+    toAddress: string
+    data: EmailTemplateData<K>
+  }
+}[EmailTemplateName]
+
+// Dữ liệu của từng loại job, phải lưu được vào MongoDB
+export type JobPayloads = {
+  [JobType.SendEmail]: SendEmailPayload
+  [JobType.ProcessImage]: {
+    fileId: ObjectId
+    // File tạm do formidable lưu trong UPLOAD_IMAGE_DIR
+    filepath: string
+    name: string
+  }
+}
+
+type JobConstructor<T extends JobType> = {
+  _id?: ObjectId
+  type: T
+  payload: JobPayloads[T]
+  status?: JobStatus
+  attempts?: number
+  maxAttempts: number
+  runAt?: Date
+  lockedAt?: Date | null
+  lockedBy?: string | null
+  lastError?: string | null
+  completedAt?: Date | null
+  failedAt?: Date | null
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export default class Job<T extends JobType = JobType> {
+  _id?: ObjectId
+  type: T
+  payload: JobPayloads[T]
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  // Thời điểm sớm nhất job được chạy (lần đầu hoặc lần thử lại)
+  runAt: Date
+  lockedAt: Date | null
+  lockedBy: string | null
+  lastError: string | null
+  completedAt: Date | null
+  // Thời điểm job chuyển sang JobStatus.Failed sau khi hết số lần thử
+  failedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({
+    _id,
+    type,
+    payload,
+    status,
+    attempts,
+    maxAttempts,
+    runAt,
+    lockedAt,
+    lockedBy,
+    lastError,
+    completedAt,
+    failedAt,
+    createdAt,
+    updatedAt
+  }: JobConstructor<T>) {
+    const date = new Date()
+    this._id = _id
+    this.type = type
+    this.payload = payload
+    this.status = status ?? JobStatus.Pending
+    this.attempts = attempts || 0
+    this.maxAttempts = maxAttempts
+    this.runAt = runAt || date
+    this.lockedAt = lockedAt || null
+    this.lockedBy = lockedBy || null
+    this.lastError = lastError || null
+    this.completedAt = completedAt || null
+    this.failedAt = failedAt || null
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
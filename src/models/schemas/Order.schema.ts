@@ -1,40 +1,162 @@
 import { ObjectId } from 'mongodb'
-import { OrderStatus } from '~/constants/enum'
+import { AddressType, OrderStatus, PaymentMethod, PaymentStatus, ProductDiscountType } from '~/constants/enum'
 
+type OrderItemConstructor = {
+  cartItemId: ObjectId
+  productId: ObjectId
+  variantId?: ObjectId | null
+  sku?: string
+  size?: string
+  colorName?: string
+  name: string
+  thumbnail: string
+  categoryName: string
+  brandName: string
+  originalPrice: number
+  discountType: ProductDiscountType
+  discountValue: number
+  unitPrice: number
+  quantity: number
+}
+
+// Lưu lại thông tin sản phẩm tại thời điểm đặt hàng để đơn hàng không bị ảnh hưởng khi sản phẩm thay đổi
 export class OrderItem {
   cartItemId: ObjectId
   productId: ObjectId
+  variantId: ObjectId | null
+  sku: string
+  size: string
+  colorName: string
+  name: string
+  thumbnail: string
+  categoryName: string
+  brandName: string
+  originalPrice: number
+  discountType: ProductDiscountType
+  discountValue: number
   unitPrice: number
   quantity: number
 
   constructor({
     cartItemId,
     productId,
+    variantId,
+    sku,
+    size,
+    colorName,
+    name,
+    thumbnail,
+    categoryName,
+    brandName,
+    originalPrice,
+    discountType,
+    discountValue,
     unitPrice,
     quantity
-  }: {
-    cartItemId: ObjectId
-    productId: ObjectId
-    unitPrice: number
-    quantity: number
-  }) {
+  }: OrderItemConstructor) {
     this.cartItemId = cartItemId
     this.productId = productId
+    this.variantId = variantId || null
+    this.sku = sku || ''
+    this.size = size || ''
+    this.colorName = colorName || ''
+    this.name = name
+    this.thumbnail = thumbnail
+    this.categoryName = categoryName
+    this.brandName = brandName
+    this.originalPrice = originalPrice
+    this.discountType = discountType
+    this.discountValue = discountValue
     this.unitPrice = unitPrice
     this.quantity = quantity
   }
 }
 
+// Địa chỉ giao hàng được lưu cố định tại thời điểm đặt hàng
+export class ShippingAddress {
+  addressId: ObjectId
+  fullName: string
+  phoneNumber: string
+  type: AddressType
+  provinceName: string
+  districtName: string
+  wardName: string
+  streetName: string
+  specificAddress: string
+
+  constructor({
+    addressId,
+    fullName,
+    phoneNumber,
+    type,
+    provinceName,
+    districtName,
+    wardName,
+    streetName,
+    specificAddress
+  }: {
+    addressId: ObjectId
+    fullName: string
+    phoneNumber: string
+    type: AddressType
+    provinceName: string
+    districtName: string
+    wardName: string
+    streetName?: string
+    specificAddress: string
+  }) {
+    this.addressId = addressId
+    this.fullName = fullName
+    this.phoneNumber = phoneNumber
+    this.type = type
+    this.provinceName = provinceName
+    this.districtName = districtName
+    this.wardName = wardName
+    this.streetName = streetName || ''
+    this.specificAddress = specificAddress
+  }
+}
+
+export class OrderStatusHistory {
+  status: OrderStatus
+  changedBy: ObjectId
+  note: string
+  changedAt: Date
+
+  constructor({
+    status,
+    changedBy,
+    note,
+    changedAt
+  }: {
+    status: OrderStatus
+    changedBy: ObjectId
+    note?: string
+    changedAt?: Date
+  }) {
+    this.status = status
+    this.changedBy = changedBy
+    this.note = note || ''
+    this.changedAt = changedAt || new Date()
+  }
+}
+
 type OrderConstructor = {
   _id?: ObjectId
   userId: ObjectId
   voucherId?: ObjectId
+  shippingAddress?: ShippingAddress
   status?: OrderStatus
+  paymentMethod?: PaymentMethod
+  paymentStatus?: PaymentStatus
   items: OrderItem[]
   totalAmount: number
   totalAmountReduced?: number
   totalPayment?: number
   totalQuantity: number
+  statusHistory?: OrderStatusHistory[]
+  deletedAt?: Date | null
+  deletedBy?: ObjectId | null
   createdAt?: Date
   updatedAt?: Date
 }
@@ -43,12 +165,18 @@ export default class Order {
   _id?: ObjectId
   userId: ObjectId
   voucherId: ObjectId | null
+  shippingAddress: ShippingAddress | null
   status: OrderStatus
+  paymentMethod: PaymentMethod
+  paymentStatus: PaymentStatus
   items: OrderItem[]
   totalAmount: number
   totalAmountReduced: number
   totalPayment: number
   totalQuantity: number
+  statusHistory: OrderStatusHistory[]
+  deletedAt: Date | null
+  deletedBy: ObjectId | null
   createdAt: Date
   updatedAt: Date
 
@@ -56,12 +184,18 @@ export default class Order {
     _id,
     userId,
     voucherId,
+    shippingAddress,
     status,
+    paymentMethod,
+    paymentStatus,
     items,
     totalAmount,
     totalAmountReduced,
     totalPayment,
     totalQuantity,
+    statusHistory,
+    deletedAt,
+    deletedBy,
     createdAt,
     updatedAt
   }: OrderConstructor) {
@@ -69,12 +203,18 @@ export default class Order {
     this._id = _id
     this.userId = userId
     this.voucherId = voucherId || null
+    this.shippingAddress = shippingAddress || null
     this.status = status || OrderStatus.WaitForConfirmation
+    this.paymentMethod = paymentMethod || PaymentMethod.Cod
+    this.paymentStatus = paymentStatus || PaymentStatus.Pending
     this.items = items
     this.totalAmount = totalAmount
     this.totalAmountReduced = totalAmountReduced || 0
     this.totalPayment = totalPayment || this.totalAmount - this.totalAmountReduced
     this.totalQuantity = totalQuantity
+    this.statusHistory = statusHistory || []
+    this.deletedAt = deletedAt || null
+    this.deletedBy = deletedBy || null
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
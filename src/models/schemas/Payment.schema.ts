@@ -0,0 +1,58 @@
+import { ObjectId } from 'mongodb'
+
+import { PaymentMethod, PaymentStatus } from '~/constants/enum'
+
+type PaymentConstructor = {
+  _id?: ObjectId
+  orderId: ObjectId
+  userId: ObjectId
+  method: PaymentMethod
+  amount: number
+  status?: PaymentStatus
+  transactionId?: string | null
+  callbackData?: Record<string, string> | null
+  paidAt?: Date | null
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export default class Payment {
+  _id?: ObjectId
+  orderId: ObjectId
+  userId: ObjectId
+  method: PaymentMethod
+  amount: number
+  status: PaymentStatus
+  transactionId: string | null
+  callbackData: Record<string, string> | null
+  paidAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({
+    _id,
+    orderId,
+    userId,
+    method,
+    amount,
+    status,
+    transactionId,
+    callbackData,
+    paidAt,
+    createdAt,
+    updatedAt
+  }: PaymentConstructor) {
+    const date = new Date()
+    this._id = _id
+    this.orderId = orderId
+    this.userId = userId
+    this.method = method
+    this.amount = amount
+    this.status = status || PaymentStatus.Pending
+    this.transactionId = transactionId || null
+    this.callbackData = callbackData || null
+    this.paidAt = paidAt || null
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
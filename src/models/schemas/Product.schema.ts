@@ -1,6 +1,52 @@
 import { ObjectId } from 'mongodb'
 
 import { ProductDiscountType, ProductStatus } from '~/constants/enum'
+import { getPriceAfterDiscount } from '~/utils/utils'
+
+type ProductVariantConstructor = {
+  _id?: ObjectId
+  sku: string
+  colorId?: ObjectId | null
+  size?: string
+  price: number
+  availableCount: number
+  photos?: ObjectId[]
+  discountType?: ProductDiscountType
+  discountValue?: number
+}
+
+// Phiên bản của sản phẩm theo màu sắc và kích cỡ, giá sau giảm được tính theo mức giảm giá của sản phẩm
+export class ProductVariant {
+  _id: ObjectId
+  sku: string
+  colorId: ObjectId | null
+  size: string
+  price: number
+  priceAfterDiscount: number
+  availableCount: number
+  photos: ObjectId[]
+
+  constructor({
+    _id,
+    sku,
+    colorId,
+    size,
+    price,
+    availableCount,
+    photos,
+    discountType,
+    discountValue
+  }: ProductVariantConstructor) {
+    this._id = _id || new ObjectId()
+    this.sku = sku
+    this.colorId = colorId || null
+    this.size = size || ''
+    this.price = price
+    this.priceAfterDiscount = getPriceAfterDiscount({ price, discountType, discountValue })
+    this.availableCount = availableCount
+    this.photos = photos || []
+  }
+}
 
 type ProductConstructor = {
   _id?: ObjectId
@@ -14,8 +60,14 @@ type ProductConstructor = {
   status?: ProductStatus
   availableCount: number
   price: number
+  variants?: ProductVariant[]
   discountType?: ProductDiscountType
   discountValue?: number
+  soldCount?: number
+  starPoint?: number
+  reviewCount?: number
+  deletedAt?: Date | null
+  deletedBy?: ObjectId | null
   createdAt?: Date
   updatedAt?: Date
 }
@@ -30,10 +82,19 @@ export default class Product {
   thumbnail: ObjectId
   photos: ObjectId[]
   status: ProductStatus
+  // Khi có phiên bản, price là giá thấp nhất và availableCount là tổng tồn kho của các phiên bản
   availableCount: number
   price: number
+  variants: ProductVariant[]
   discountType: ProductDiscountType
   discountValue: number
+  priceAfterDiscount: number
+  soldCount: number
+  starPoint: number
+  reviewCount: number
+  // Thời điểm và người chuyển bản ghi vào thùng rác, null khi chưa bị xoá
+  deletedAt: Date | null
+  deletedBy: ObjectId | null
   createdAt: Date
   updatedAt: Date
 
@@ -49,8 +110,14 @@ export default class Product {
     status,
     availableCount,
     price,
+    variants,
     discountType,
     discountValue,
+    soldCount,
+    starPoint,
+    reviewCount,
+    deletedAt,
+    deletedBy,
     createdAt,
     updatedAt
   }: ProductConstructor) {
@@ -66,8 +133,19 @@ export default class Product {
     this.status = status || ProductStatus.Active
     this.availableCount = availableCount
     this.price = price
+    this.variants = variants || []
     this.discountType = discountType || ProductDiscountType.Money
     this.discountValue = discountValue || 0
+    this.priceAfterDiscount = getPriceAfterDiscount({
+      price: this.price,
+      discountType: this.discountType,
+      discountValue: this.discountValue
+    })
+    this.soldCount = soldCount || 0
+    this.starPoint = starPoint || 0
+    this.reviewCount = reviewCount || 0
+    this.deletedAt = deletedAt || null
+    this.deletedBy = deletedBy || null
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
@@ -3,8 +3,14 @@ import { ObjectId } from 'mongodb'
 type ProductCategoryConstructor = {
   _id?: ObjectId
   userId: ObjectId
+  parentId?: ObjectId | null
   name: string
+  slug: string
   description?: string
+  order?: number
+  previousParentId?: ObjectId | null
+  deletedAt?: Date | null
+  deletedBy?: ObjectId | null
   createdAt?: Date
   updatedAt?: Date
 }
@@ -12,17 +18,45 @@ type ProductCategoryConstructor = {
 export default class ProductCategory {
   _id?: ObjectId
   userId: ObjectId
+  // Danh mục cha, null với danh mục gốc
+  parentId: ObjectId | null
   name: string
+  slug: string
   description: string
+  // Thứ tự hiển thị giữa các danh mục cùng cấp, số nhỏ hơn đứng trước
+  order: number
+  // Danh mục cha trước khi danh mục cha bị chuyển vào thùng rác, dùng để gắn lại khi khôi phục danh mục cha
+  previousParentId: ObjectId | null
+  deletedAt: Date | null
+  deletedBy: ObjectId | null
   createdAt: Date
   updatedAt: Date
 
-  constructor({ _id, userId, name, description, createdAt, updatedAt }: ProductCategoryConstructor) {
+  constructor({
+    _id,
+    userId,
+    parentId,
+    name,
+    slug,
+    description,
+    order,
+    previousParentId,
+    deletedAt,
+    deletedBy,
+    createdAt,
+    updatedAt
+  }: ProductCategoryConstructor) {
     const date = new Date()
     this._id = _id
     this.userId = userId
+    this.parentId = parentId || null
     this.name = name
+    this.slug = slug
     this.description = description || ''
+    this.order = order || 0
+    this.previousParentId = previousParentId || null
+    this.deletedAt = deletedAt || null
+    this.deletedBy = deletedBy || null
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
@@ -2,27 +2,56 @@ import { ObjectId } from 'mongodb'
 
 type RefreshTokenConstructor = {
   _id?: ObjectId
-  token: string
+  userId: ObjectId
+  sessionId: ObjectId
+  tokenHash: string
+  userAgent?: string
+  ipAddress?: string
   iat: number
   exp: number
+  rotatedAt?: Date | null
   createdAt?: Date
   updatedAt?: Date
 }
 
+// Các refresh token được xoay vòng trong cùng một phiên đăng nhập dùng chung sessionId
+// Chỉ lưu mã băm của refresh token (xem hashToken), không lưu token gốc
 export default class RefreshToken {
   _id?: ObjectId
-  token: string
+  userId: ObjectId
+  sessionId: ObjectId
+  tokenHash: string
+  userAgent: string
+  ipAddress: string
   iat: Date
   exp: Date
+  rotatedAt: Date | null
   createdAt: Date
   updatedAt: Date
 
-  constructor({ _id, token, iat, exp, createdAt, updatedAt }: RefreshTokenConstructor) {
+  constructor({
+    _id,
+    userId,
+    sessionId,
+    tokenHash,
+    userAgent,
+    ipAddress,
+    iat,
+    exp,
+    rotatedAt,
+    createdAt,
+    updatedAt
+  }: RefreshTokenConstructor) {
     const date = new Date()
     this._id = _id
-    this.token = token
+    this.userId = userId
+    this.sessionId = sessionId
+    this.tokenHash = tokenHash
+    this.userAgent = userAgent || ''
+    this.ipAddress = ipAddress || ''
     this.iat = new Date(iat * 1000)
     this.exp = new Date(exp * 1000)
+    this.rotatedAt = rotatedAt || null
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
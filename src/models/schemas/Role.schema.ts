@@ -0,0 +1,31 @@
+import { ObjectId } from 'mongodb'
+
+import { Permission } from '~/constants/enum'
+
+type RoleConstructor = {
+  _id?: ObjectId
+  name: string
+  description?: string
+  permissions: Permission[]
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export default class Role {
+  _id?: ObjectId
+  name: string
+  description: string
+  permissions: Permission[]
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({ _id, name, description, permissions, createdAt, updatedAt }: RoleConstructor) {
+    const date = new Date()
+    this._id = _id
+    this.name = name
+    this.description = description || ''
+    this.permissions = permissions
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
@@ -0,0 +1,25 @@
+import { ObjectId } from 'mongodb'
+
+type SettingConstructor = {
+  _id?: ObjectId
+  requireAdminTwoFactor?: boolean
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// Cấu hình chung của hệ thống, collection chỉ có một document
+export default class Setting {
+  _id?: ObjectId
+  // Bắt buộc tài khoản UserRole.Admin bật xác thực hai lớp trước khi sử dụng các chức năng quản trị
+  requireAdminTwoFactor: boolean
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({ _id, requireAdminTwoFactor, createdAt, updatedAt }: SettingConstructor) {
+    const date = new Date()
+    this._id = _id
+    this.requireAdminTwoFactor = requireAdminTwoFactor || false
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
@@ -1,5 +1,13 @@
 import { ObjectId } from 'mongodb'
-import { UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+import { SocialProvider, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+
+// Tài khoản mạng xã hội đã liên kết, dùng để đăng nhập bằng OAuth
+export type LinkedIdentity = {
+  provider: SocialProvider
+  providerUserId: string
+  email: string
+  linkedAt: Date
+}
 
 type UserConstructor = {
   _id?: ObjectId
@@ -13,7 +21,18 @@ type UserConstructor = {
   addresses?: ObjectId[]
   status?: UserStatus
   role?: UserRole
+  roleIds?: ObjectId[]
   verify?: UserVerifyStatus
+  tokenVersion?: number
+  passwordChangedAt?: Date | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | null
+  twoFactorEnabled?: boolean
+  twoFactorSecret?: string
+  twoFactorRecoveryCodes?: string[]
+  twoFactorLastUsedStep?: number
+  identities?: LinkedIdentity[]
+  receiveNotificationEmails?: boolean
   createdAt?: Date
   updatedAt?: Date
 }
@@ -27,6 +46,8 @@ export type LoggedUser = {
   status: UserStatus
   verify: UserVerifyStatus
   role: UserRole
+  twoFactorEnabled: boolean
+  receiveNotificationEmails: boolean
   createdAt: Date
   updatedAt: Date
 }
@@ -43,7 +64,24 @@ export default class User {
   addresses: ObjectId[]
   status: UserStatus
   role: UserRole
+  roleIds: ObjectId[]
   verify: UserVerifyStatus
+  // Tăng lên mỗi khi đổi mật khẩu, đổi vai trò hoặc đổi trạng thái, các token ký với phiên bản cũ không còn hợp lệ
+  tokenVersion: number
+  passwordChangedAt: Date | null
+  // Số lần nhập sai mật khẩu liên tiếp, đủ MAX_FAILED_LOGIN_ATTEMPTS lần thì khoá tài khoản tới lockedUntil
+  failedLoginAttempts: number
+  lockedUntil: Date | null
+  twoFactorEnabled: boolean
+  // Khoá bí mật TOTP (base32), được lưu từ lúc đăng ký và chỉ có hiệu lực khi twoFactorEnabled = true
+  twoFactorSecret: string
+  // Mã băm của các mã khôi phục chưa sử dụng
+  twoFactorRecoveryCodes: string[]
+  // Bước thời gian của mã TOTP được dùng gần nhất, chặn việc dùng lại một mã
+  twoFactorLastUsedStep: number
+  identities: LinkedIdentity[]
+  // Nhận các email không bắt buộc như cập nhật trạng thái đơn hàng, email bắt buộc (xác minh, đặt hàng...) luôn được gửi
+  receiveNotificationEmails: boolean
   createdAt: Date
   updatedAt: Date
 
@@ -59,7 +97,18 @@ export default class User {
     addresses,
     status,
     role,
+    roleIds,
     verify,
+    tokenVersion,
+    passwordChangedAt,
+    failedLoginAttempts,
+    lockedUntil,
+    twoFactorEnabled,
+    twoFactorSecret,
+    twoFactorRecoveryCodes,
+    twoFactorLastUsedStep,
+    identities,
+    receiveNotificationEmails,
     createdAt,
     updatedAt
   }: UserConstructor) {
@@ -75,7 +124,18 @@ export default class User {
     this.addresses = addresses || []
     this.status = status || UserStatus.Active
     this.role = role || UserRole.User
-    this.verify = verify || UserVerifyStatus.Unverified
+    this.roleIds = roleIds || []
+    this.verify = verify ?? UserVerifyStatus.Unverified
+    this.tokenVersion = tokenVersion || 0
+    this.passwordChangedAt = passwordChangedAt || null
+    this.failedLoginAttempts = failedLoginAttempts || 0
+    this.lockedUntil = lockedUntil || null
+    this.twoFactorEnabled = twoFactorEnabled || false
+    this.twoFactorSecret = twoFactorSecret || ''
+    this.twoFactorRecoveryCodes = twoFactorRecoveryCodes || []
+    this.twoFactorLastUsedStep = twoFactorLastUsedStep || 0
+    this.identities = identities || []
+    this.receiveNotificationEmails = receiveNotificationEmails ?? true
     this.createdAt = createdAt || date
     this.updatedAt = updatedAt || date
   }
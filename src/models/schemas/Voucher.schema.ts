@@ -0,0 +1,78 @@
+import { ObjectId } from 'mongodb'
+
+import { VoucherDiscountType, VoucherStatus } from '~/constants/enum'
+
+type VoucherConstructor = {
+  _id?: ObjectId
+  userId: ObjectId
+  code: string
+  description?: string
+  discountType: VoucherDiscountType
+  discountValue: number
+  minOrderValue?: number
+  maxDiscount?: number | null
+  usageLimit?: number | null
+  usageLimitPerUser?: number | null
+  usedCount?: number
+  status?: VoucherStatus
+  startsAt: Date
+  expiresAt: Date
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export default class Voucher {
+  _id?: ObjectId
+  userId: ObjectId
+  code: string
+  description: string
+  discountType: VoucherDiscountType
+  discountValue: number
+  minOrderValue: number
+  maxDiscount: number | null
+  usageLimit: number | null
+  usageLimitPerUser: number | null
+  usedCount: number
+  status: VoucherStatus
+  startsAt: Date
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+
+  constructor({
+    _id,
+    userId,
+    code,
+    description,
+    discountType,
+    discountValue,
+    minOrderValue,
+    maxDiscount,
+    usageLimit,
+    usageLimitPerUser,
+    usedCount,
+    status,
+    startsAt,
+    expiresAt,
+    createdAt,
+    updatedAt
+  }: VoucherConstructor) {
+    const date = new Date()
+    this._id = _id
+    this.userId = userId
+    this.code = code
+    this.description = description || ''
+    this.discountType = discountType
+    this.discountValue = discountValue
+    this.minOrderValue = minOrderValue || 0
+    this.maxDiscount = maxDiscount || null
+    this.usageLimit = usageLimit || null
+    this.usageLimitPerUser = usageLimitPerUser || null
+    this.usedCount = usedCount || 0
+    this.status = status || VoucherStatus.Active
+    this.startsAt = startsAt
+    this.expiresAt = expiresAt
+    this.createdAt = createdAt || date
+    this.updatedAt = updatedAt || date
+  }
+}
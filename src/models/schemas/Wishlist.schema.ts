@@ -0,0 +1,23 @@
+import { ObjectId } from 'mongodb'
+
+type WishlistConstructor = {
+  _id?: ObjectId
+  userId: ObjectId
+  productId: ObjectId
+  createdAt?: Date
+}
+
+// Mỗi document là một sản phẩm trong danh sách yêu thích của người dùng
+export default class Wishlist {
+  _id?: ObjectId
+  userId: ObjectId
+  productId: ObjectId
+  createdAt: Date
+
+  constructor({ _id, userId, productId, createdAt }: WishlistConstructor) {
+    this._id = _id
+    this.userId = userId
+    this.productId = productId
+    this.createdAt = createdAt || new Date()
+  }
+}
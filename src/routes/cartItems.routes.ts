@@ -8,12 +8,14 @@ import {
   updateCartItemQuantityController
 } from '~/controllers/cartItems.controllers'
 import {
+  addToCartStockValidator,
   addToCartValidator,
   cartItemIdOptionalValidator,
   cartItemIdValidator,
   checkoutValidator,
   notEmptyCartValidator,
-  updateCartItemQuantityValidator
+  updateCartItemQuantityValidator,
+  updateCartItemStockValidator
 } from '~/middlewares/cartItems.middlewares'
 import { paginationValidator } from '~/middlewares/common.middlewares'
 import { productIdValidator } from '~/middlewares/products.middlewares'
@@ -28,6 +30,7 @@ cartItemsRouter.post(
   verifiedUserValidator,
   productIdValidator,
   addToCartValidator,
+  addToCartStockValidator,
   wrapRequestHandler(addToCartController)
 )
 
@@ -37,6 +40,7 @@ cartItemsRouter.patch(
   verifiedUserValidator,
   cartItemIdValidator,
   updateCartItemQuantityValidator,
+  updateCartItemStockValidator,
   wrapRequestHandler(updateCartItemQuantityController)
 )
 
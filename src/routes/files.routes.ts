@@ -1,6 +1,8 @@
 import { Router } from 'express'
 
-import { uploadImageController } from '~/controllers/files.controllers'
+import { deleteFileController, uploadImageController } from '~/controllers/files.controllers'
+import { deleteQueryValidator } from '~/middlewares/common.middlewares'
+import { fileIdValidator, ownerOfFileValidator } from '~/middlewares/files.middlewares'
 import { accessTokenValidator } from '~/middlewares/users.middlewares'
 import { wrapRequestHandler } from '~/utils/handler'
 
@@ -8,4 +10,13 @@ const filesRouter = Router()
 
 filesRouter.post('/upload-image', accessTokenValidator, wrapRequestHandler(uploadImageController))
 
+filesRouter.delete(
+  '/:fileId',
+  accessTokenValidator,
+  fileIdValidator,
+  ownerOfFileValidator,
+  deleteQueryValidator,
+  wrapRequestHandler(deleteFileController)
+)
+
 export default filesRouter
@@ -0,0 +1,28 @@
+import { Router } from 'express'
+
+import { Permission } from '~/constants/enum'
+import { getFailedJobsController, retryJobController } from '~/controllers/jobs.controllers'
+import { paginationValidator } from '~/middlewares/common.middlewares'
+import { retryJobValidator } from '~/middlewares/jobs.middlewares'
+import { accessTokenValidator, requirePermission } from '~/middlewares/users.middlewares'
+import { wrapRequestHandler } from '~/utils/handler'
+
+const jobsRouter = Router()
+
+jobsRouter.get(
+  '/failed',
+  accessTokenValidator,
+  requirePermission(Permission.JobsManage),
+  paginationValidator,
+  wrapRequestHandler(getFailedJobsController)
+)
+
+jobsRouter.post(
+  '/:jobId/retry',
+  accessTokenValidator,
+  requirePermission(Permission.JobsManage),
+  retryJobValidator,
+  wrapRequestHandler(retryJobController)
+)
+
+export default jobsRouter
@@ -1,20 +1,27 @@
 import { Router } from 'express'
 
+import { Permission } from '~/constants/enum'
 import {
   cancelOrderController,
   deleteOrderController,
   getAllOrdersController,
+  getDeletedOrdersController,
   getMyOrdersController,
+  getOrderController,
+  restoreOrderController,
   updateOrderStatusController
 } from '~/controllers/orders.controllers'
 import { paginationValidator } from '~/middlewares/common.middlewares'
 import {
+  cancelOrderBodyValidator,
   cancelOrderValidator,
+  deletedOrderIdValidator,
   isAuthorOfOrderValidator,
+  isAuthorOrAdminOfOrderValidator,
   orderIdValidator,
   updateOrderStatusValidator
 } from '~/middlewares/orders.middlewares'
-import { accessTokenValidator, isAdminValidator, verifiedUserValidator } from '~/middlewares/users.middlewares'
+import { accessTokenValidator, requirePermission, verifiedUserValidator } from '~/middlewares/users.middlewares'
 import { wrapRequestHandler } from '~/utils/handler'
 
 const ordersRouter = Router()
@@ -34,6 +41,7 @@ ordersRouter.post(
   orderIdValidator,
   isAuthorOfOrderValidator,
   cancelOrderValidator,
+  cancelOrderBodyValidator,
   wrapRequestHandler(cancelOrderController)
 )
 
@@ -41,16 +49,34 @@ ordersRouter.get(
   '/all',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.OrdersRead),
   paginationValidator,
   wrapRequestHandler(getAllOrdersController)
 )
 
+ordersRouter.get(
+  '/trash',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.OrdersDelete),
+  paginationValidator,
+  wrapRequestHandler(getDeletedOrdersController)
+)
+
+ordersRouter.post(
+  '/:orderId/restore',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.OrdersDelete),
+  deletedOrderIdValidator,
+  wrapRequestHandler(restoreOrderController)
+)
+
 ordersRouter.patch(
   '/:orderId/update-status',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.OrdersUpdateStatus),
   orderIdValidator,
   updateOrderStatusValidator,
   wrapRequestHandler(updateOrderStatusController)
@@ -60,9 +86,18 @@ ordersRouter.delete(
   '/:orderId',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.OrdersDelete),
   orderIdValidator,
   wrapRequestHandler(deleteOrderController)
 )
 
+ordersRouter.get(
+  '/:orderId',
+  accessTokenValidator,
+  verifiedUserValidator,
+  orderIdValidator,
+  isAuthorOrAdminOfOrderValidator,
+  wrapRequestHandler(getOrderController)
+)
+
 export default ordersRouter
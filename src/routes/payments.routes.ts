@@ -0,0 +1,25 @@
+import { Router } from 'express'
+
+import { paymentWebhookController, retryPaymentController } from '~/controllers/payments.controllers'
+import { isAuthorOfOrderValidator, orderIdValidator } from '~/middlewares/orders.middlewares'
+import { payableOrderValidator, paymentProviderValidator } from '~/middlewares/payments.middlewares'
+import { accessTokenValidator, verifiedUserValidator } from '~/middlewares/users.middlewares'
+import { wrapRequestHandler } from '~/utils/handler'
+
+const paymentsRouter = Router()
+
+paymentsRouter.get('/webhook/:provider', paymentProviderValidator, wrapRequestHandler(paymentWebhookController))
+
+paymentsRouter.post('/webhook/:provider', paymentProviderValidator, wrapRequestHandler(paymentWebhookController))
+
+paymentsRouter.post(
+  '/orders/:orderId',
+  accessTokenValidator,
+  verifiedUserValidator,
+  orderIdValidator,
+  isAuthorOfOrderValidator,
+  payableOrderValidator,
+  wrapRequestHandler(retryPaymentController)
+)
+
+export default paymentsRouter
@@ -1,37 +1,57 @@
 import { Router } from 'express'
 
+import { Permission } from '~/constants/enum'
 import {
   createBrandController,
   createCategoryController,
+  createColorController,
   createProductController,
   deleteBrandController,
   deleteCategoryController,
+  deleteColorController,
   deleteProductController,
   getAllBrandsController,
   getAllCategoriesController,
+  getAllColorsController,
   getAllProductsController,
   getBrandController,
   getCategoryController,
+  getCategoryTreeController,
+  getColorController,
+  getDeletedBrandsController,
+  getDeletedCategoriesController,
+  getDeletedProductsController,
   getProductController,
   getProductsController,
+  restoreBrandController,
+  restoreCategoryController,
+  restoreProductController,
   updateBrandController,
   updateCategoryController,
+  updateColorController,
   updateProductController
 } from '~/controllers/products.controllers'
-import { filterReqBodyMiddleware, paginationValidator } from '~/middlewares/common.middlewares'
+import { deleteQueryValidator, filterReqBodyMiddleware, paginationValidator } from '~/middlewares/common.middlewares'
 import {
   brandIdValidator,
+  colorIdValidator,
   createBrandValidator,
+  createColorValidator,
   createProductCategoryValidator,
   createProductValidator,
+  deletedBrandIdValidator,
+  deletedProductCategoryIdValidator,
+  deletedProductIdValidator,
+  getProductsValidator,
   productCategoryIdValidator,
   productIdValidator
 } from '~/middlewares/products.middlewares'
-import { accessTokenValidator, isAdminValidator } from '~/middlewares/users.middlewares'
+import { accessTokenValidator, isUserLoggedInValidator, requirePermission } from '~/middlewares/users.middlewares'
 import {
   CreateBrandReqBody,
-  CreateProductCategoryReqBody,
-  CreateProductReqBody
+  CreateColorReqBody,
+  CreateProductReqBody,
+  UpdateProductCategoryReqBody
 } from '~/models/requests/Product.requests'
 import { wrapRequestHandler } from '~/utils/handler'
 
@@ -40,7 +60,7 @@ const productsRouter = Router()
 productsRouter.post(
   '/categories',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.CategoriesWrite),
   createProductCategoryValidator,
   wrapRequestHandler(createCategoryController)
 )
@@ -48,23 +68,42 @@ productsRouter.post(
 productsRouter.patch(
   '/categories/:productCategoryId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.CategoriesWrite),
   productCategoryIdValidator,
   createProductCategoryValidator,
-  filterReqBodyMiddleware<CreateProductCategoryReqBody>(['name', 'description']),
+  filterReqBodyMiddleware<UpdateProductCategoryReqBody>(['parentId', 'name', 'slug', 'description', 'order']),
   wrapRequestHandler(updateCategoryController)
 )
 
 productsRouter.delete(
   '/categories/:productCategoryId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.CategoriesWrite),
   productCategoryIdValidator,
+  deleteQueryValidator,
   wrapRequestHandler(deleteCategoryController)
 )
 
 productsRouter.get('/categories/all', paginationValidator, wrapRequestHandler(getAllCategoriesController))
 
+productsRouter.get('/categories/tree', wrapRequestHandler(getCategoryTreeController))
+
+productsRouter.get(
+  '/categories/trash',
+  accessTokenValidator,
+  requirePermission(Permission.CategoriesWrite),
+  paginationValidator,
+  wrapRequestHandler(getDeletedCategoriesController)
+)
+
+productsRouter.post(
+  '/categories/:productCategoryId/restore',
+  accessTokenValidator,
+  requirePermission(Permission.CategoriesWrite),
+  deletedProductCategoryIdValidator,
+  wrapRequestHandler(restoreCategoryController)
+)
+
 productsRouter.get(
   '/categories/:productCategoryId',
   productCategoryIdValidator,
@@ -74,7 +113,7 @@ productsRouter.get(
 productsRouter.post(
   '/brands',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.BrandsWrite),
   createBrandValidator,
   wrapRequestHandler(createBrandController)
 )
@@ -82,7 +121,7 @@ productsRouter.post(
 productsRouter.put(
   '/brands/:brandId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.BrandsWrite),
   brandIdValidator,
   createBrandValidator,
   filterReqBodyMiddleware<CreateBrandReqBody>(['name', 'nation', 'description']),
@@ -92,19 +131,67 @@ productsRouter.put(
 productsRouter.delete(
   '/brands/:brandId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.BrandsWrite),
   brandIdValidator,
+  deleteQueryValidator,
   wrapRequestHandler(deleteBrandController)
 )
 
 productsRouter.get('/brands/all', paginationValidator, wrapRequestHandler(getAllBrandsController))
 
+productsRouter.get(
+  '/brands/trash',
+  accessTokenValidator,
+  requirePermission(Permission.BrandsWrite),
+  paginationValidator,
+  wrapRequestHandler(getDeletedBrandsController)
+)
+
+productsRouter.post(
+  '/brands/:brandId/restore',
+  accessTokenValidator,
+  requirePermission(Permission.BrandsWrite),
+  deletedBrandIdValidator,
+  wrapRequestHandler(restoreBrandController)
+)
+
 productsRouter.get('/brands/:brandId', brandIdValidator, wrapRequestHandler(getBrandController))
 
+productsRouter.post(
+  '/colors',
+  accessTokenValidator,
+  requirePermission(Permission.ProductsWrite),
+  createColorValidator,
+  filterReqBodyMiddleware<CreateColorReqBody>(['name', 'hexCode']),
+  wrapRequestHandler(createColorController)
+)
+
+productsRouter.put(
+  '/colors/:colorId',
+  accessTokenValidator,
+  requirePermission(Permission.ProductsWrite),
+  colorIdValidator,
+  createColorValidator,
+  filterReqBodyMiddleware<CreateColorReqBody>(['name', 'hexCode']),
+  wrapRequestHandler(updateColorController)
+)
+
+productsRouter.delete(
+  '/colors/:colorId',
+  accessTokenValidator,
+  requirePermission(Permission.ProductsWrite),
+  colorIdValidator,
+  wrapRequestHandler(deleteColorController)
+)
+
+productsRouter.get('/colors/all', wrapRequestHandler(getAllColorsController))
+
+productsRouter.get('/colors/:colorId', colorIdValidator, wrapRequestHandler(getColorController))
+
 productsRouter.post(
   '/',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.ProductsWrite),
   createProductValidator,
   filterReqBodyMiddleware<CreateProductReqBody>([
     'availableCount',
@@ -117,7 +204,8 @@ productsRouter.post(
     'price',
     'productCategoryId',
     'thumbnail',
-    'status'
+    'status',
+    'variants'
   ]),
   wrapRequestHandler(createProductController)
 )
@@ -125,7 +213,7 @@ productsRouter.post(
 productsRouter.put(
   '/:productId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.ProductsWrite),
   productIdValidator,
   createProductValidator,
   filterReqBodyMiddleware<CreateProductReqBody>([
@@ -139,7 +227,8 @@ productsRouter.put(
     'price',
     'productCategoryId',
     'thumbnail',
-    'status'
+    'status',
+    'variants'
   ]),
   wrapRequestHandler(updateProductController)
 )
@@ -147,21 +236,49 @@ productsRouter.put(
 productsRouter.delete(
   '/:productId',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.ProductsWrite),
   productIdValidator,
+  deleteQueryValidator,
   wrapRequestHandler(deleteProductController)
 )
 
-productsRouter.get('/', paginationValidator, wrapRequestHandler(getProductsController))
+productsRouter.get(
+  '/',
+  isUserLoggedInValidator(accessTokenValidator),
+  paginationValidator,
+  getProductsValidator,
+  wrapRequestHandler(getProductsController)
+)
 
 productsRouter.get(
   '/all',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.ProductsRead),
   paginationValidator,
   wrapRequestHandler(getAllProductsController)
 )
 
-productsRouter.get('/:productId', productIdValidator, wrapRequestHandler(getProductController))
+productsRouter.get(
+  '/trash',
+  accessTokenValidator,
+  requirePermission(Permission.ProductsWrite),
+  paginationValidator,
+  wrapRequestHandler(getDeletedProductsController)
+)
+
+productsRouter.post(
+  '/:productId/restore',
+  accessTokenValidator,
+  requirePermission(Permission.ProductsWrite),
+  deletedProductIdValidator,
+  wrapRequestHandler(restoreProductController)
+)
+
+productsRouter.get(
+  '/:productId',
+  isUserLoggedInValidator(accessTokenValidator),
+  productIdValidator,
+  wrapRequestHandler(getProductController)
+)
 
 export default productsRouter
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 
+import { Permission } from '~/constants/enum'
 import {
   createReviewController,
   deleteReplyController,
@@ -20,7 +21,7 @@ import {
   reviewIdValidator,
   updateReviewValidator
 } from '~/middlewares/reviews.middlewares'
-import { accessTokenValidator, isAdminValidator, verifiedUserValidator } from '~/middlewares/users.middlewares'
+import { accessTokenValidator, requirePermission, verifiedUserValidator } from '~/middlewares/users.middlewares'
 import { CreateReviewReqBody, UpdateReviewReqBody } from '~/models/requests/Review.requests'
 import { wrapRequestHandler } from '~/utils/handler'
 
@@ -61,7 +62,7 @@ reviewsRouter.post(
   '/:reviewId/reply',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.ReviewsReply),
   reviewIdValidator,
   replyReviewValidator,
   wrapRequestHandler(replyReviewController)
@@ -71,7 +72,7 @@ reviewsRouter.patch(
   '/replies/:replyId',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.ReviewsReply),
   replyIdValidator,
   replyReviewValidator,
   wrapRequestHandler(updateReplyController)
@@ -81,7 +82,7 @@ reviewsRouter.delete(
   '/replies/:replyId',
   accessTokenValidator,
   verifiedUserValidator,
-  isAdminValidator,
+  requirePermission(Permission.ReviewsReply),
   replyIdValidator,
   wrapRequestHandler(deleteReplyController)
 )
@@ -0,0 +1,77 @@
+import { Router } from 'express'
+
+import { Permission } from '~/constants/enum'
+import {
+  createRoleController,
+  deleteRoleController,
+  getAllPermissionsController,
+  getAllRolesController,
+  getRoleController,
+  updateRoleController
+} from '~/controllers/roles.controllers'
+import { filterReqBodyMiddleware, paginationValidator } from '~/middlewares/common.middlewares'
+import { createRoleValidator, notOwnRoleValidator, roleIdValidator } from '~/middlewares/roles.middlewares'
+import { accessTokenValidator, requirePermission, verifiedUserValidator } from '~/middlewares/users.middlewares'
+import { CreateRoleReqBody } from '~/models/requests/Role.requests'
+import { wrapRequestHandler } from '~/utils/handler'
+
+const rolesRouter = Router()
+
+rolesRouter.post(
+  '/',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  createRoleValidator,
+  filterReqBodyMiddleware<CreateRoleReqBody>(['name', 'description', 'permissions']),
+  wrapRequestHandler(createRoleController)
+)
+
+rolesRouter.put(
+  '/:roleId',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  roleIdValidator,
+  notOwnRoleValidator,
+  createRoleValidator,
+  filterReqBodyMiddleware<CreateRoleReqBody>(['name', 'description', 'permissions']),
+  wrapRequestHandler(updateRoleController)
+)
+
+rolesRouter.delete(
+  '/:roleId',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  roleIdValidator,
+  wrapRequestHandler(deleteRoleController)
+)
+
+rolesRouter.get(
+  '/all',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  paginationValidator,
+  wrapRequestHandler(getAllRolesController)
+)
+
+rolesRouter.get(
+  '/permissions',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  wrapRequestHandler(getAllPermissionsController)
+)
+
+rolesRouter.get(
+  '/:roleId',
+  accessTokenValidator,
+  verifiedUserValidator,
+  requirePermission(Permission.RolesManage),
+  roleIdValidator,
+  wrapRequestHandler(getRoleController)
+)
+
+export default rolesRouter
@@ -1,47 +1,94 @@
 import { Router } from 'express'
 
+import { Permission } from '~/constants/enum'
 import {
+  assignRolesController,
   changePasswordController,
+  disableTwoFactorController,
+  enrollTwoFactorController,
   forgotPasswordController,
   getAllCustomersController,
+  getCustomerController,
   getMeController,
+  getOAuthUrlController,
+  getSessionsController,
   loginController,
+  loginTwoFactorController,
   logoutController,
+  oauthLoginController,
   refreshTokenController,
   registerController,
   resendEmailVerifyController,
   resetPasswordController,
+  revokeSessionController,
   updateMeController,
+  updateTwoFactorPolicyController,
+  updateUserRoleController,
+  updateUserStatusController,
   verifyEmailController,
-  verifyForgotPasswordTokenController
+  verifyForgotPasswordTokenController,
+  verifyTwoFactorSetupController
 } from '~/controllers/users.controllers'
 import { filterReqBodyMiddleware, paginationValidator } from '~/middlewares/common.middlewares'
+import {
+  forgotPasswordRateLimiter,
+  loginRateLimiter,
+  resendEmailVerifyRateLimiter
+} from '~/middlewares/rateLimit.middlewares'
+import { assignRolesValidator } from '~/middlewares/roles.middlewares'
 import {
   accessTokenValidator,
+  adminAccountValidator,
   changePasswordValidator,
+  disableTwoFactorValidator,
+  enrollTwoFactorValidator,
   forgotPasswordTokenValidator,
   forgotPasswordValidator,
-  isAdminValidator,
+  getCustomersValidator,
+  loginTwoFactorValidator,
   loginValidator,
+  notSelfValidator,
+  oauthLoginValidator,
+  oauthProviderValidator,
   refreshTokenValidator,
   registerValidator,
+  requirePermission,
   resendEmailVerifyValidator,
   resetPasswordValidator,
+  sessionIdValidator,
   updateMeValidator,
-  verifyEmailValidator
+  updateTwoFactorPolicyValidator,
+  updateUserRoleValidator,
+  updateUserStatusValidator,
+  userIdValidator,
+  verifyEmailValidator,
+  verifyTwoFactorSetupValidator
 } from '~/middlewares/users.middlewares'
-import { UpdateMeReqBody } from '~/models/requests/User.requests'
+import { AssignRolesReqBody, UpdateMeReqBody, UpdateTwoFactorPolicyReqBody } from '~/models/requests/User.requests'
 import { wrapRequestHandler } from '~/utils/handler'
 
 const usersRouter = Router()
 
 usersRouter.post('/register', registerValidator, wrapRequestHandler(registerController))
 
-usersRouter.post('/login', loginValidator, wrapRequestHandler(loginController))
+usersRouter.post('/login', loginRateLimiter, loginValidator, wrapRequestHandler(loginController))
+
+usersRouter.post('/login/2fa', loginRateLimiter, loginTwoFactorValidator, wrapRequestHandler(loginTwoFactorController))
+
+usersRouter.get('/oauth/:provider', oauthProviderValidator, wrapRequestHandler(getOAuthUrlController))
+
+usersRouter.post(
+  '/oauth/:provider',
+  loginRateLimiter,
+  oauthProviderValidator,
+  oauthLoginValidator,
+  wrapRequestHandler(oauthLoginController)
+)
 
 usersRouter.post(
   '/resend-email-verify',
   accessTokenValidator,
+  resendEmailVerifyRateLimiter,
   resendEmailVerifyValidator,
   wrapRequestHandler(resendEmailVerifyController)
 )
@@ -52,7 +99,12 @@ usersRouter.post('/logout', refreshTokenValidator, wrapRequestHandler(logoutCont
 
 usersRouter.post('/refresh-token', refreshTokenValidator, wrapRequestHandler(refreshTokenController))
 
-usersRouter.post('/forgot-password', forgotPasswordValidator, wrapRequestHandler(forgotPasswordController))
+usersRouter.post(
+  '/forgot-password',
+  forgotPasswordRateLimiter,
+  forgotPasswordValidator,
+  wrapRequestHandler(forgotPasswordController)
+)
 
 usersRouter.post(
   '/verify-forgot-password-token',
@@ -80,16 +132,97 @@ usersRouter.patch(
   '/me',
   accessTokenValidator,
   updateMeValidator,
-  filterReqBodyMiddleware<UpdateMeReqBody>(['avatar', 'fullName', 'phoneNumber']),
+  filterReqBodyMiddleware<UpdateMeReqBody>(['avatar', 'fullName', 'phoneNumber', 'receiveNotificationEmails']),
   wrapRequestHandler(updateMeController)
 )
 
+usersRouter.post(
+  '/2fa/enroll',
+  accessTokenValidator,
+  enrollTwoFactorValidator,
+  wrapRequestHandler(enrollTwoFactorController)
+)
+
+usersRouter.post(
+  '/2fa/verify',
+  accessTokenValidator,
+  verifyTwoFactorSetupValidator,
+  wrapRequestHandler(verifyTwoFactorSetupController)
+)
+
+usersRouter.post(
+  '/2fa/disable',
+  accessTokenValidator,
+  disableTwoFactorValidator,
+  wrapRequestHandler(disableTwoFactorController)
+)
+
+usersRouter.patch(
+  '/2fa/policy',
+  accessTokenValidator,
+  requirePermission(Permission.SettingsManage),
+  updateTwoFactorPolicyValidator,
+  filterReqBodyMiddleware<UpdateTwoFactorPolicyReqBody>(['requireAdminTwoFactor']),
+  wrapRequestHandler(updateTwoFactorPolicyController)
+)
+
+usersRouter.get('/sessions', accessTokenValidator, wrapRequestHandler(getSessionsController))
+
+usersRouter.delete(
+  '/sessions/:sessionId',
+  accessTokenValidator,
+  sessionIdValidator,
+  wrapRequestHandler(revokeSessionController)
+)
+
 usersRouter.get(
   '/customers/all',
   accessTokenValidator,
-  isAdminValidator,
+  requirePermission(Permission.UsersRead),
   paginationValidator,
+  getCustomersValidator,
   wrapRequestHandler(getAllCustomersController)
 )
 
+usersRouter.get(
+  '/customers/:userId',
+  accessTokenValidator,
+  requirePermission(Permission.UsersRead),
+  userIdValidator,
+  wrapRequestHandler(getCustomerController)
+)
+
+usersRouter.patch(
+  '/:userId/status',
+  accessTokenValidator,
+  requirePermission(Permission.UsersWrite),
+  userIdValidator,
+  notSelfValidator,
+  updateUserStatusValidator,
+  adminAccountValidator,
+  wrapRequestHandler(updateUserStatusController)
+)
+
+usersRouter.patch(
+  '/:userId/role',
+  accessTokenValidator,
+  requirePermission(Permission.RolesManage),
+  userIdValidator,
+  notSelfValidator,
+  updateUserRoleValidator,
+  adminAccountValidator,
+  wrapRequestHandler(updateUserRoleController)
+)
+
+usersRouter.put(
+  '/:userId/roles',
+  accessTokenValidator,
+  requirePermission(Permission.RolesManage),
+  userIdValidator,
+  notSelfValidator,
+  assignRolesValidator,
+  filterReqBodyMiddleware<AssignRolesReqBody>(['roleIds']),
+  wrapRequestHandler(assignRolesController)
+)
+
 export default usersRouter
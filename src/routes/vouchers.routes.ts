@@ -0,0 +1,86 @@
+import { Router } from 'express'
+
+import { Permission } from '~/constants/enum'
+import {
+  createVoucherController,
+  deleteVoucherController,
+  getAllVouchersController,
+  getVoucherController,
+  updateVoucherController
+} from '~/controllers/vouchers.controllers'
+import { filterReqBodyMiddleware, paginationValidator } from '~/middlewares/common.middlewares'
+import { accessTokenValidator, requirePermission } from '~/middlewares/users.middlewares'
+import { createVoucherValidator, voucherIdValidator } from '~/middlewares/vouchers.middlewares'
+import { CreateVoucherReqBody } from '~/models/requests/Voucher.requests'
+import { wrapRequestHandler } from '~/utils/handler'
+
+const vouchersRouter = Router()
+
+vouchersRouter.post(
+  '/',
+  accessTokenValidator,
+  requirePermission(Permission.VouchersWrite),
+  createVoucherValidator,
+  filterReqBodyMiddleware<CreateVoucherReqBody>([
+    'code',
+    'description',
+    'discountType',
+    'discountValue',
+    'expiresAt',
+    'maxDiscount',
+    'minOrderValue',
+    'startsAt',
+    'status',
+    'usageLimit',
+    'usageLimitPerUser'
+  ]),
+  wrapRequestHandler(createVoucherController)
+)
+
+vouchersRouter.put(
+  '/:voucherId',
+  accessTokenValidator,
+  requirePermission(Permission.VouchersWrite),
+  voucherIdValidator,
+  createVoucherValidator,
+  filterReqBodyMiddleware<CreateVoucherReqBody>([
+    'code',
+    'description',
+    'discountType',
+    'discountValue',
+    'expiresAt',
+    'maxDiscount',
+    'minOrderValue',
+    'startsAt',
+    'status',
+    'usageLimit',
+    'usageLimitPerUser'
+  ]),
+  wrapRequestHandler(updateVoucherController)
+)
+
+vouchersRouter.delete(
+  '/:voucherId',
+  accessTokenValidator,
+  requirePermission(Permission.VouchersWrite),
+  voucherIdValidator,
+  wrapRequestHandler(deleteVoucherController)
+)
+
+vouchersRouter.get(
+  '/all',
+  accessTokenValidator,
+  requirePermission(Permission.VouchersRead),
+  paginationValidator,
+  wrapRequestHandler(getAllVouchersController)
+)
+
+vouchersRouter.get(
+  '/:voucherId',
+  accessTokenValidator,
+  requirePermission(Permission.VouchersRead),
+  voucherIdValidator,
+  wrapRequestHandler(getVoucherController)
+)
+
+export default vouchersRouter
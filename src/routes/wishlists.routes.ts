@@ -0,0 +1,31 @@
+import { Router } from 'express'
+
+import {
+  addToWishlistController,
+  getMyWishlistController,
+  removeFromWishlistController
+} from '~/controllers/wishlists.controllers'
+import { paginationValidator } from '~/middlewares/common.middlewares'
+import { productIdValidator } from '~/middlewares/products.middlewares'
+import { accessTokenValidator } from '~/middlewares/users.middlewares'
+import { wrapRequestHandler } from '~/utils/handler'
+
+const wishlistsRouter = Router()
+
+wishlistsRouter.post(
+  '/products/:productId',
+  accessTokenValidator,
+  productIdValidator,
+  wrapRequestHandler(addToWishlistController)
+)
+
+wishlistsRouter.delete(
+  '/products/:productId',
+  accessTokenValidator,
+  productIdValidator,
+  wrapRequestHandler(removeFromWishlistController)
+)
+
+wishlistsRouter.get('/me', accessTokenValidator, paginationValidator, wrapRequestHandler(getMyWishlistController))
+
+export default wishlistsRouter
@@ -3,6 +3,7 @@ import { ObjectId } from 'mongodb'
 import { CreateAddressReqBody } from '~/models/requests/Address.requests'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
 import Address from '~/models/schemas/Address.schema'
+import { ShippingAddress } from '~/models/schemas/Order.schema'
 import databaseService from '~/services/database.services'
 import { paginationConfig } from '~/utils/utils'
 
@@ -405,6 +406,27 @@ class AddressService {
     }
   }
 
+  async getShippingAddress({ addressId, userId }: { addressId?: string; userId: string }) {
+    const address = await databaseService.addresses.findOne(
+      addressId ? { _id: new ObjectId(addressId) } : { userId: new ObjectId(userId), isDefault: true }
+    )
+    if (!address) return null
+    const { address: addressDetail } = await this.getOne(address._id.toString())
+    if (!addressDetail) return null
+    const { province, district, ward, street } = addressDetail
+    return new ShippingAddress({
+      addressId: address._id,
+      fullName: address.fullName,
+      phoneNumber: address.phoneNumber,
+      type: address.type,
+      provinceName: province.name,
+      districtName: district.name,
+      wardName: [ward.prefix, ward.name].join(' ').trim(),
+      streetName: street ? [street.prefix, street.name].join(' ').trim() : undefined,
+      specificAddress: address.specificAddress
+    })
+  }
+
   async getAllProvinces() {
     const provinces = await databaseService.provinces
       .find(
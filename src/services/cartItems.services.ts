@@ -1,26 +1,47 @@
-import { ObjectId } from 'mongodb'
+import { Filter, ObjectId, WithId } from 'mongodb'
 
 import { ENV_CONFIG } from '~/constants/config'
-import { CartItemStatus, ProductDiscountType } from '~/constants/enum'
+import { CartItemStatus, HttpStatusCode, OrderStatus, PaymentMethod, ProductDiscountType } from '~/constants/enum'
 import { CART_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
 import { CheckoutReqBody } from '~/models/requests/CartItem.requests'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
 import CartItem from '~/models/schemas/CartItem.schema'
-import Order, { OrderItem } from '~/models/schemas/Order.schema'
+import Order, { OrderItem, OrderStatusHistory } from '~/models/schemas/Order.schema'
+import Payment from '~/models/schemas/Payment.schema'
+import Voucher from '~/models/schemas/Voucher.schema'
+import addressService from '~/services/addresses.services'
 import databaseService from '~/services/database.services'
+import orderService from '~/services/orders.services'
+import paymentService from '~/services/payments.services'
+import productService from '~/services/product.services'
+import voucherService from '~/services/vouchers.services'
 import { paginationConfig } from '~/utils/utils'
 
 class CartItemService {
-  async addToCart({ productId, userId, quantity }: { productId: string; userId: string; quantity: number }) {
+  async addToCart({
+    productId,
+    variantId,
+    userId,
+    quantity
+  }: {
+    productId: string
+    variantId?: string
+    userId: string
+    quantity: number
+  }) {
+    // Mỗi cặp sản phẩm - phiên bản là một mục riêng trong giỏ hàng
     let cartItem = await databaseService.cartItems.findOne({
       userId: new ObjectId(userId),
       productId: new ObjectId(productId),
+      variantId: variantId ? new ObjectId(variantId) : null,
       status: CartItemStatus.InCart
     })
     if (!cartItem) {
       const { insertedId } = await databaseService.cartItems.insertOne(
         new CartItem({
           productId: new ObjectId(productId),
+          variantId: variantId ? new ObjectId(variantId) : null,
           userId: new ObjectId(userId),
           quantity
         })
@@ -30,8 +51,7 @@ class CartItemService {
     } else {
       const updatedCartItem = await databaseService.cartItems.findOneAndUpdate(
         {
-          userId: new ObjectId(userId),
-          productId: new ObjectId(productId)
+          _id: cartItem._id
         },
         {
           $inc: {
@@ -101,7 +121,18 @@ class CartItemService {
           availableCount: number
           price: number
           priceAfterDiscount: number
+          discountType: ProductDiscountType
+          discountValue: number
+          category: string
+          brand: string
         }
+        variantId: string | null
+        variant: {
+          _id: string
+          sku: string
+          size: string
+          colorName: string
+        } | null
         quantity: number
         createdAt: string
         updatedAt: string
@@ -114,6 +145,13 @@ class CartItemService {
             from: 'products',
             localField: 'productId',
             foreignField: '_id',
+            pipeline: [
+              {
+                $match: {
+                  deletedAt: null
+                }
+              }
+            ],
             as: 'product'
           }
         },
@@ -122,6 +160,73 @@ class CartItemService {
             path: '$product'
           }
         },
+        {
+          $addFields: {
+            variant: {
+              $arrayElemAt: [
+                {
+                  $filter: {
+                    input: {
+                      $ifNull: ['$product.variants', []]
+                    },
+                    as: 'variant',
+                    cond: {
+                      $eq: ['$$variant._id', '$variantId']
+                    }
+                  }
+                },
+                0
+              ]
+            }
+          }
+        },
+        // Mục có chọn phiên bản thì dùng giá và tồn kho của phiên bản, phiên bản đã bị xoá được xem như hết hàng
+        {
+          $addFields: {
+            'product.price': {
+              $ifNull: ['$variant.price', '$product.price']
+            },
+            'product.availableCount': {
+              $cond: [
+                {
+                  $ifNull: ['$variantId', false]
+                },
+                {
+                  $ifNull: ['$variant.availableCount', 0]
+                },
+                '$product.availableCount'
+              ]
+            }
+          }
+        },
+        {
+          $lookup: {
+            from: 'colors',
+            localField: 'variant.colorId',
+            foreignField: '_id',
+            as: 'variantColor'
+          }
+        },
+        {
+          $addFields: {
+            variant: {
+              $cond: [
+                {
+                  $ifNull: ['$variant', false]
+                },
+                {
+                  _id: '$variant._id',
+                  sku: '$variant.sku',
+                  size: '$variant.size',
+                  colorName: {
+                    $ifNull: [{ $arrayElemAt: ['$variantColor.name', 0] }, '']
+                  }
+                },
+                null
+              ]
+            }
+          }
+        },
         {
           $lookup: {
             from: 'files',
@@ -135,8 +240,36 @@ class CartItemService {
             path: '$product.thumbnail'
           }
         },
+        {
+          $lookup: {
+            from: 'productCategories',
+            localField: 'product.productCategoryId',
+            foreignField: '_id',
+            as: 'productCategory'
+          }
+        },
+        {
+          $unwind: {
+            path: '$productCategory'
+          }
+        },
+        {
+          $lookup: {
+            from: 'brands',
+            localField: 'product.brandId',
+            foreignField: '_id',
+            as: 'productBrand'
+          }
+        },
+        {
+          $unwind: {
+            path: '$productBrand'
+          }
+        },
         {
           $addFields: {
+            'product.category': '$productCategory.name',
+            'product.brand': '$productBrand.name',
             'product.thumbnail': {
               $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$product.thumbnail.name']
             },
@@ -159,12 +292,14 @@ class CartItemService {
                       $subtract: [
                         '$product.price',
                         {
-                          $multiply: [
-                            '$product.price',
-                            {
-                              $divide: ['$product.discountValue', 100]
-                            }
-                          ]
+                          $floor: {
+                            $divide: [
+                              {
+                                $multiply: ['$product.price', '$product.discountValue']
+                              },
+                              100
+                            ]
+                          }
                         }
                       ]
                     }
@@ -181,6 +316,14 @@ class CartItemService {
             product: {
               $first: '$product'
             },
+            variantId: {
+              $first: {
+                $ifNull: ['$variantId', null]
+              }
+            },
+            variant: {
+              $first: '$variant'
+            },
             quantity: {
               $first: '$quantity'
             },
@@ -198,11 +341,10 @@ class CartItemService {
             'product.productCategoryId': 0,
             'product.brandId': 0,
             'product.description': 0,
-            'product.discountType': 0,
             'product.status': 0,
-            'product.discountValue': 0,
             'product.createdAt': 0,
             'product.photos': 0,
+            'product.variants': 0,
             'product.updatedAt': 0
           }
         },
@@ -221,6 +363,48 @@ class CartItemService {
       .toArray()
   }
 
+  // Mục có sản phẩm nằm trong thùng rác được giữ lại nhưng không hiển thị và không được đặt hàng
+  async countCartItems(match: Filter<CartItem>) {
+    const [result] = await databaseService.cartItems
+      .aggregate<{ totalRows: number }>([
+        {
+          $match: match
+        },
+        {
+          $lookup: {
+            from: 'products',
+            localField: 'productId',
+            foreignField: '_id',
+            pipeline: [
+              {
+                $match: {
+                  deletedAt: null
+                }
+              },
+              {
+                $project: {
+                  _id: 1
+                }
+              }
+            ],
+            as: 'product'
+          }
+        },
+        {
+          $match: {
+            'product.0': {
+              $exists: true
+            }
+          }
+        },
+        {
+          $count: 'totalRows'
+        }
+      ])
+      .toArray()
+    return result ? result.totalRows : 0
+  }
+
   async getCartItems({ userId, query }: { userId: string; query: PaginationReqQuery }) {
     const { page, limit, skip } = paginationConfig(query)
     const match = {
@@ -229,7 +413,7 @@ class CartItemService {
     }
     const [cartItems, totalRows] = await Promise.all([
       this.aggregateCartItems({ match, skip, limit }),
-      databaseService.cartItems.countDocuments(match)
+      this.countCartItems(match)
     ])
     return {
       cartItems,
@@ -240,58 +424,126 @@ class CartItemService {
     }
   }
 
-  async checkout({ dto, userId }: { dto: CheckoutReqBody; userId: string }) {
-    const { totalAmountReduced, voucherId } = dto
-    const totalRows = await databaseService.cartItems.countDocuments({
+  async checkout({ dto, userId, ipAddress }: { dto: CheckoutReqBody; userId: string; ipAddress: string }) {
+    const { voucherId, addressId, paymentMethod = PaymentMethod.Cod } = dto
+    const totalRows = await this.countCartItems({
       userId: new ObjectId(userId),
       status: CartItemStatus.InCart
     })
+    if (totalRows === 0) {
+      throw new ErrorWithStatus({
+        message: CART_MESSAGES.CART_IS_EMPTY,
+        status: HttpStatusCode.BadRequest
+      })
+    }
     const cartItems = await this.aggregateCartItems({
-      match: { userId: new ObjectId(userId) },
+      match: { userId: new ObjectId(userId), status: CartItemStatus.InCart },
       skip: 0,
       limit: totalRows
     })
+    if (cartItems.some((cartItem) => cartItem.variantId && !cartItem.variant)) {
+      throw new ErrorWithStatus({
+        message: CART_MESSAGES.CART_ITEM_VARIANT_IS_UNAVAILABLE,
+        status: HttpStatusCode.BadRequest
+      })
+    }
     const totalAmount = cartItems.reduce((acc, cur) => acc + cur.quantity * cur.product.priceAfterDiscount, 0)
     const totalQuantity = cartItems.reduce((acc, cartItem) => acc + cartItem.quantity, 0)
+    let voucher: WithId<Voucher> | null = null
+    let totalAmountReduced = 0
+    if (voucherId) {
+      voucher = await voucherService.checkUsable({ voucherId, userId })
+      totalAmountReduced = voucherService.calculateDiscount({ voucher, totalAmount })
+    }
     const orderItems = cartItems.map(
       (cartItem) =>
         new OrderItem({
           cartItemId: new ObjectId(cartItem._id),
           productId: new ObjectId(cartItem.product._id),
+          variantId: cartItem.variant ? new ObjectId(cartItem.variant._id) : null,
+          sku: cartItem.variant?.sku,
+          size: cartItem.variant?.size,
+          colorName: cartItem.variant?.colorName,
+          name: cartItem.product.name,
+          thumbnail: cartItem.product.thumbnail,
+          categoryName: cartItem.product.category,
+          brandName: cartItem.product.brand,
+          originalPrice: cartItem.product.price,
+          discountType: cartItem.product.discountType,
+          discountValue: cartItem.product.discountValue,
           quantity: cartItem.quantity,
           unitPrice: cartItem.product.priceAfterDiscount
         })
     )
-    const { insertedId } = await databaseService.orders.insertOne(
-      new Order({
-        items: orderItems,
-        totalAmount,
-        totalAmountReduced,
-        voucherId: voucherId ? new ObjectId(voucherId) : undefined,
-        totalQuantity,
-        userId: new ObjectId(userId)
+    const shippingAddress = await addressService.getShippingAddress({ addressId, userId })
+    if (!shippingAddress) {
+      throw new ErrorWithStatus({
+        message: CART_MESSAGES.SHIPPING_ADDRESS_IS_REQUIRED,
+        status: HttpStatusCode.BadRequest
       })
-    )
-    const [insertedOrder] = await Promise.all([
-      databaseService.orders.findOne({ _id: insertedId }),
-      databaseService.cartItems.updateMany(
-        {
-          _id: {
-            $in: orderItems.map((orderItem) => orderItem.cartItemId)
-          }
-        },
-        {
-          $set: {
-            status: CartItemStatus.NotInCart
-          },
-          $currentDate: {
-            updatedAt: true
-          }
+    }
+    const orderId = new ObjectId()
+    const payment = new Payment({
+      _id: new ObjectId(),
+      orderId,
+      userId: new ObjectId(userId),
+      method: paymentMethod,
+      amount: totalAmount - totalAmountReduced
+    }) as WithId<Payment>
+    const session = databaseService.startSession()
+    try {
+      await session.withTransaction(async () => {
+        await productService.reserveStock({ items: orderItems, session })
+        if (voucher) {
+          await voucherService.use({ voucherId: voucher._id, userId: new ObjectId(userId), session })
         }
-      )
-    ])
+        await databaseService.orders.insertOne(
+          new Order({
+            _id: orderId,
+            items: orderItems,
+            totalAmount,
+            totalAmountReduced,
+            voucherId: voucher ? voucher._id : undefined,
+            shippingAddress,
+            paymentMethod,
+            totalQuantity,
+            userId: new ObjectId(userId),
+            statusHistory: [
+              new OrderStatusHistory({
+                status: OrderStatus.WaitForConfirmation,
+                changedBy: new ObjectId(userId)
+              })
+            ]
+          }),
+          { session }
+        )
+        await databaseService.payments.insertOne(payment, { session })
+        await databaseService.cartItems.updateMany(
+          {
+            _id: {
+              $in: orderItems.map((orderItem) => orderItem.cartItemId)
+            }
+          },
+          {
+            $set: {
+              status: CartItemStatus.NotInCart
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+      })
+    } finally {
+      await session.endSession()
+    }
+    const insertedOrder = await databaseService.orders.findOne({ _id: orderId })
+    await orderService.notifyCustomer({ order: insertedOrder as WithId<Order> })
     return {
-      order: insertedOrder
+      order: insertedOrder,
+      payment,
+      redirectUrl: paymentService.getRedirectUrl({ payment, ipAddress })
     }
   }
 }
@@ -1,51 +1,46 @@
 import { Request } from 'express'
 import fsPromise from 'fs/promises'
-import { ObjectId } from 'mongodb'
+import { ClientSession, ObjectId } from 'mongodb'
 import path from 'path'
 import sharp from 'sharp'
 
 import { ENV_CONFIG } from '~/constants/config'
 import { UPLOAD_IMAGE_DIR } from '~/constants/dir'
-import { FileType } from '~/constants/enum'
+import { FileType, JobType } from '~/constants/enum'
+import { FILE_MESSAGES } from '~/constants/message'
+import { ReferencedEntityError } from '~/models/Errors'
 import File from '~/models/schemas/File.schema'
+import { JobPayloads } from '~/models/schemas/Job.schema'
 import databaseService from '~/services/database.services'
+import jobService from '~/services/jobs.services'
 import { getNameFromFullName, handleUploadImage } from '~/utils/file'
-import { uploadFileToS3 } from '~/utils/s3'
+import { deleteFileFromS3, uploadFileToS3 } from '~/utils/s3'
 
 class FileService {
+  // Lưu thông tin ảnh rồi đưa việc chuyển định dạng và tải lên S3 vào hàng đợi
   async uploadImage({ req, userId }: { req: Request; userId: string }) {
-    const mime = (await import('mime')).default
     const images = await handleUploadImage(req)
     const result = await Promise.all(
       images.map(async (image) => {
         const newName = getNameFromFullName(image.newFilename)
         const newFullName = `${newName}.jpg`
-        const newPath = path.resolve(UPLOAD_IMAGE_DIR, newFullName)
-        if (!image.filepath.includes('.jpg')) {
-          await sharp(image.filepath).jpeg().toFile(newPath)
-        }
-        const [s3Result, { insertedId: addedImageId }] = await Promise.all([
-          uploadFileToS3({
-            filename: `images/${newFullName}`,
-            filepath: newPath,
-            contentType: mime.getType(newPath) as string
-          }),
-          databaseService.files.insertOne(
-            new File({
-              name: newFullName,
-              type: FileType.Image,
-              userId: new ObjectId(userId)
-            })
-          )
-        ])
-        const addedImage = await databaseService.files.findOne({ _id: addedImageId })
-        try {
-          await Promise.all([fsPromise.unlink(image.filepath), fsPromise.unlink(newPath)])
-        } catch (error) {
-          console.log(error)
-        }
+        const { insertedId: addedImageId } = await databaseService.files.insertOne(
+          new File({
+            name: newFullName,
+            type: FileType.Image,
+            userId: new ObjectId(userId)
+          })
+        )
+        await jobService.enqueue({
+          type: JobType.ProcessImage,
+          payload: {
+            fileId: addedImageId,
+            filepath: image.filepath,
+            name: newFullName
+          }
+        })
         return {
-          _id: (addedImage as File)._id,
+          _id: addedImageId,
           name: newFullName,
           type: FileType.Image,
           url: `${ENV_CONFIG.HOST}/${ENV_CONFIG.STATIC_IMAGES_PATH}/${newFullName}`
@@ -56,6 +51,81 @@ class FileService {
       images: result
     }
   }
+
+  // Chạy trong worker của hàng đợi, file tạm chỉ bị xoá sau khi tải lên S3 thành công để có thể chạy lại
+  async processImage({ filepath, name }: JobPayloads[JobType.ProcessImage]) {
+    const mime = (await import('mime')).default
+    const newPath = path.resolve(UPLOAD_IMAGE_DIR, name)
+    if (filepath !== newPath) {
+      await sharp(filepath).jpeg().toFile(newPath)
+    }
+    await uploadFileToS3({
+      filename: `images/${name}`,
+      filepath: newPath,
+      contentType: mime.getType(newPath) as string
+    })
+    await Promise.all([...new Set([filepath, newPath])].map((item) => fsPromise.rm(item, { force: true })))
+  }
+
+  async getFileReferences(fileId: ObjectId, session?: ClientSession) {
+    const [productThumbnails, productPhotos, reviews, users] = await Promise.all([
+      databaseService.products.countDocuments({ thumbnail: fileId }, { session }),
+      databaseService.products.countDocuments(
+        { $or: [{ photos: fileId }, { 'variants.photos': fileId }] },
+        { session }
+      ),
+      databaseService.reviews.countDocuments({ photos: fileId }, { session }),
+      databaseService.users.countDocuments({ avatar: fileId }, { session })
+    ])
+    return {
+      productThumbnails,
+      productPhotos,
+      reviews,
+      users
+    }
+  }
+
+  // Ảnh đại diện sản phẩm luôn bắt buộc nên không thể xoá kể cả khi force
+  // Các tham chiếu khác (ảnh sản phẩm, ảnh đánh giá, avatar) được gỡ bỏ khi force
+  async deleteFile({ fileId, force }: { fileId: string; force: boolean }) {
+    const _id = new ObjectId(fileId)
+    const session = databaseService.startSession()
+    let result
+    try {
+      result = await session.withTransaction(async () => {
+        const references = await this.getFileReferences(_id, session)
+        if (references.productThumbnails > 0) {
+          throw new ReferencedEntityError({ message: FILE_MESSAGES.FILE_IS_USED_AS_PRODUCT_THUMBNAIL, references })
+        }
+        if (Object.values(references).some((count) => count > 0) && !force) {
+          throw new ReferencedEntityError({ references })
+        }
+        const file = await databaseService.files.findOneAndDelete({ _id }, { session })
+        await Promise.all([
+          databaseService.products.updateMany({ photos: _id }, { $pull: { photos: _id } }, { session }),
+          databaseService.products.updateMany(
+            { 'variants.photos': _id },
+            { $pull: { 'variants.$[].photos': _id } },
+            { session }
+          ),
+          databaseService.reviews.updateMany({ photos: _id }, { $pull: { photos: _id } }, { session }),
+          databaseService.users.updateMany({ avatar: _id }, { $set: { avatar: null } }, { session })
+        ])
+        return {
+          file,
+          references
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
+    if (result.file) {
+      await deleteFileFromS3(`images/${result.file.name}`).catch((error) => console.log(error))
+    }
+    return {
+      references: result.references
+    }
+  }
 }
 
 const fileService = new FileService()
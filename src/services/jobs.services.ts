@@ -0,0 +1,233 @@
+import mapValues from 'lodash/mapValues'
+import { ObjectId, WithId } from 'mongodb'
+import os from 'os'
+
+import { JobStatus, JobType } from '~/constants/enum'
+import {
+  JOB_LOCK_TIMEOUT,
+  JOB_MAX_ATTEMPTS,
+  JOB_POLL_INTERVAL,
+  JOB_RETRY_BASE_DELAY,
+  JOB_RETRY_MAX_DELAY,
+  JOB_SENSITIVE_FIELD_REGEX
+} from '~/constants/job'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import Job, { JobPayloads } from '~/models/schemas/Job.schema'
+import databaseService from '~/services/database.services'
+import fileService from '~/services/files.services'
+import { sendTemplateEmail } from '~/utils/email'
+import { paginationConfig } from '~/utils/utils'
+
+type JobHandler<T extends JobType> = (payload: JobPayloads[T]) => Promise<unknown>
+
+const jobHandlers: { [K in JobType]: JobHandler<K> } = {
+  [JobType.SendEmail]: (payload) => sendTemplateEmail(payload),
+  [JobType.ProcessImage]: (payload) => fileService.processImage(payload)
+}
+
+// Thời gian chờ trước lần chạy lại tiếp theo, tăng gấp đôi sau mỗi lần thất bại
+const getRetryDelay = (attempts: number) => {
+  return Math.min(JOB_RETRY_BASE_DELAY * 2 ** (attempts - 1), JOB_RETRY_MAX_DELAY)
+}
+
+// Email xác minh và đặt lại mật khẩu chứa token còn hiệu lực, không được lộ ra khi quản trị viên xem job
+const redactJob = (job: WithId<Job>) => {
+  if (job.type !== JobType.SendEmail) return job
+  const payload = job.payload as JobPayloads[JobType.SendEmail]
+  return {
+    ...job,
+    payload: {
+      ...payload,
+      data: mapValues(payload.data as Record<string, unknown>, (value, key) =>
+        JOB_SENSITIVE_FIELD_REGEX.test(key) ? '[REDACTED]' : value
+      )
+    }
+  }
+}
+
+class JobService {
+  private workerId = `${os.hostname()}:${process.pid}`
+  private isWorkerRunning = false
+  private isPolling = false
+  private pollTimeout: NodeJS.Timeout | null = null
+
+  async enqueue<T extends JobType>({
+    type,
+    payload,
+    runAt,
+    maxAttempts = JOB_MAX_ATTEMPTS
+  }: {
+    type: T
+    payload: JobPayloads[T]
+    runAt?: Date
+    maxAttempts?: number
+  }) {
+    const { insertedId } = await databaseService.jobs.insertOne(new Job({ type, payload, runAt, maxAttempts }))
+    // Job cần chạy ngay thì đánh thức worker thay vì đợi tới lần lấy job tiếp theo
+    if (this.isWorkerRunning && !this.isPolling && (!runAt || runAt.getTime() <= Date.now())) {
+      this.schedulePoll(0)
+    }
+    return insertedId
+  }
+
+  sendEmail(payload: JobPayloads[JobType.SendEmail]) {
+    return this.enqueue({ type: JobType.SendEmail, payload })
+  }
+
+  // Nhận một job đến hạn, kể cả job bị kẹt ở trạng thái Processing do worker trước đó dừng giữa chừng
+  private claimNext() {
+    const now = new Date()
+    return databaseService.jobs.findOneAndUpdate(
+      {
+        $or: [
+          {
+            status: JobStatus.Pending,
+            runAt: { $lte: now }
+          },
+          {
+            status: JobStatus.Processing,
+            lockedAt: { $lte: new Date(now.getTime() - JOB_LOCK_TIMEOUT) }
+          }
+        ]
+      },
+      {
+        $set: {
+          status: JobStatus.Processing,
+          lockedAt: now,
+          lockedBy: this.workerId
+        },
+        $inc: {
+          attempts: 1
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        sort: { runAt: 1 },
+        returnDocument: 'after'
+      }
+    )
+  }
+
+  private async runJob(job: WithId<Job>) {
+    try {
+      await (jobHandlers[job.type] as JobHandler<JobType>)(job.payload)
+      await databaseService.jobs.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          $set: {
+            status: JobStatus.Completed,
+            lockedAt: null,
+            lockedBy: null,
+            lastError: null,
+            completedAt: new Date()
+          },
+          $currentDate: {
+            updatedAt: true
+          }
+        }
+      )
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error)
+      // Hết số lần thử thì chuyển job sang trạng thái Failed (dead-letter) để quản trị viên kiểm tra
+      const isExhausted = job.attempts >= job.maxAttempts
+      await databaseService.jobs.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          $set: {
+            lockedAt: null,
+            lockedBy: null,
+            lastError,
+            ...(isExhausted
+              ? { status: JobStatus.Failed, failedAt: new Date() }
+              : { status: JobStatus.Pending, runAt: new Date(Date.now() + getRetryDelay(job.attempts)) })
+          },
+          $currentDate: {
+            updatedAt: true
+          }
+        }
+      )
+    }
+  }
+
+  private schedulePoll(delay: number) {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout)
+    }
+    this.pollTimeout = setTimeout(() => this.poll(), delay)
+  }
+
+  // Chạy lần lượt các job đến hạn cho tới khi hàng đợi trống rồi hẹn lần lấy job tiếp theo
+  private async poll() {
+    this.pollTimeout = null
+    this.isPolling = true
+    try {
+      let job = await this.claimNext()
+      while (job) {
+        await this.runJob(job)
+        job = await this.claimNext()
+      }
+    } catch (error) {
+      console.log(error)
+    } finally {
+      this.isPolling = false
+    }
+    this.schedulePoll(JOB_POLL_INTERVAL)
+  }
+
+  startWorker() {
+    if (this.isWorkerRunning) return
+    this.isWorkerRunning = true
+    this.schedulePoll(0)
+  }
+
+  async getFailed(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const match = { status: JobStatus.Failed }
+    const [jobs, totalRows] = await Promise.all([
+      databaseService.jobs.find(match).sort({ failedAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.jobs.countDocuments(match)
+    ])
+    return {
+      jobs: jobs.map(redactJob),
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  // Đưa job thất bại trở lại hàng đợi với số lần thử được đặt lại
+  async retry(jobId: string) {
+    const job = await databaseService.jobs.findOneAndUpdate(
+      {
+        _id: new ObjectId(jobId),
+        status: JobStatus.Failed
+      },
+      {
+        $set: {
+          status: JobStatus.Pending,
+          attempts: 0,
+          runAt: new Date(),
+          failedAt: null
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        returnDocument: 'after'
+      }
+    )
+    if (this.isWorkerRunning && !this.isPolling) {
+      this.schedulePoll(0)
+    }
+    return {
+      job: job && redactJob(job)
+    }
+  }
+}
+
+const jobService = new JobService()
+export default jobService
@@ -1,10 +1,19 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, WithId } from 'mongodb'
 
-import { ENV_CONFIG } from '~/constants/config'
-import { OrderStatus } from '~/constants/enum'
+import { HttpStatusCode, OrderStatus, PaymentMethod, PaymentStatus } from '~/constants/enum'
+import { ORDER_MESSAGES } from '~/constants/message'
+import { ESSENTIAL_ORDER_EMAIL_STATUSES, ORDER_STATUS_TRANSITIONS } from '~/constants/order'
+import { ErrorWithStatus } from '~/models/Errors'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import Order, { OrderStatusHistory } from '~/models/schemas/Order.schema'
 import databaseService from '~/services/database.services'
-import { paginationConfig } from '~/utils/utils'
+import jobService from '~/services/jobs.services'
+import paymentService from '~/services/payments.services'
+import productService from '~/services/product.services'
+import voucherService from '~/services/vouchers.services'
+import { numberEnumToArray, paginationConfig } from '~/utils/utils'
+
+const orderStatuses = numberEnumToArray(OrderStatus)
 
 class OrderService {
   private aggregateOrders({ match, skip = 0, limit = 20 }: { match: any; limit?: number; skip?: number }) {
@@ -13,105 +22,10 @@ class OrderService {
         {
           $match: match
         },
-        {
-          $lookup: {
-            from: 'products',
-            localField: 'items.productId',
-            foreignField: '_id',
-            as: 'items'
-          }
-        },
-        {
-          $lookup: {
-            from: 'productCategories',
-            localField: 'items.productCategoryId',
-            foreignField: '_id',
-            as: 'itemCategory'
-          }
-        },
-        {
-          $unwind: {
-            path: '$itemCategory'
-          }
-        },
-        {
-          $lookup: {
-            from: 'brands',
-            localField: 'items.brandId',
-            foreignField: '_id',
-            as: 'itemBrand'
-          }
-        },
-        {
-          $unwind: {
-            path: '$itemBrand'
-          }
-        },
-        {
-          $lookup: {
-            from: 'files',
-            localField: 'items.thumbnail',
-            foreignField: '_id',
-            as: 'itemThumbnail'
-          }
-        },
-        {
-          $unwind: {
-            path: '$itemThumbnail'
-          }
-        },
-        {
-          $addFields: {
-            'items.category': '$itemCategory',
-            'items.brand': '$itemBrand',
-            'items.thumbnail': {
-              $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$itemThumbnail.name']
-            }
-          }
-        },
-        {
-          $group: {
-            _id: '$_id',
-            status: {
-              $first: '$status'
-            },
-            items: {
-              $first: '$items'
-            },
-            totalAmount: {
-              $first: '$totalAmount'
-            },
-            totalAmountReduced: {
-              $first: '$totalAmountReduced'
-            },
-            totalPayment: {
-              $first: '$totalPayment'
-            },
-            totalQuantity: {
-              $first: '$totalQuantity'
-            },
-            createdAt: {
-              $first: '$createdAt'
-            },
-            updatedAt: {
-              $first: '$updatedAt'
-            }
-          }
-        },
         {
           $project: {
-            'items.userId': 0,
-            'items.productCategoryId': 0,
-            'items.brandId': 0,
-            'items.description': 0,
-            'items.photos': 0,
-            'items.availableCount': 0,
-            'items.discountType': 0,
-            'items.discountValue': 0,
-            'items.createdAt': 0,
-            'items.updatedAt': 0,
-            'items.category.userId': 0,
-            'items.brand.userId': 0
+            'items.cartItemId': 0,
+            statusHistory: 0
           }
         },
         {
@@ -131,7 +45,7 @@ class OrderService {
 
   async getMyOrders({ userId, query }: { userId: string; query: PaginationReqQuery }) {
     const { page, limit, skip } = paginationConfig(query)
-    const match = { userId: new ObjectId(userId) }
+    const match = { userId: new ObjectId(userId), deletedAt: null }
     const [orders, totalRows] = await Promise.all([
       this.aggregateOrders({ match, skip, limit }),
       databaseService.orders.countDocuments(match)
@@ -145,14 +59,166 @@ class OrderService {
     }
   }
 
-  async cancelOrder(orderId: string) {
-    const updatedOrder = await databaseService.orders.findOneAndUpdate(
+  // Huỷ đơn hàng, hoàn lại tồn kho và lượt dùng voucher trong cùng một transaction
+  private async cancel({ orderId, userId, note }: { orderId: string; userId: string; note?: string }) {
+    const session = databaseService.startSession()
+    try {
+      await session.withTransaction(async () => {
+        const order = await databaseService.orders.findOneAndUpdate(
+          {
+            _id: new ObjectId(orderId),
+            status: {
+              $in: this.getPreviousStatuses(OrderStatus.Cancelled)
+            }
+          },
+          {
+            $set: {
+              status: OrderStatus.Cancelled
+            },
+            $push: {
+              statusHistory: new OrderStatusHistory({
+                status: OrderStatus.Cancelled,
+                changedBy: new ObjectId(userId),
+                note
+              })
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        if (!order) {
+          throw new ErrorWithStatus({
+            message: ORDER_MESSAGES.ORDER_STATUS_TRANSITION_IS_INVALID,
+            status: HttpStatusCode.BadRequest
+          })
+        }
+        await productService.restock({ items: order.items, session })
+        if (order.voucherId) {
+          await voucherService.release({ voucherId: order.voucherId, session })
+        }
+        await paymentService.cancelByOrder({ orderId: order._id, session })
+      })
+    } finally {
+      await session.endSession()
+    }
+    const cancelledOrder = await databaseService.orders.findOne({ _id: new ObjectId(orderId) })
+    if (cancelledOrder) {
+      await this.notifyCustomer({ order: cancelledOrder, note })
+    }
+    return cancelledOrder
+  }
+
+  // Gửi email cho khách hàng khi đặt hàng thành công hoặc khi trạng thái đơn hàng thay đổi
+  // Đơn hàng đã được lưu nên lỗi khi đưa email vào hàng đợi chỉ được ghi log
+  async notifyCustomer({ order, note }: { order: WithId<Order>; note?: string }) {
+    try {
+      const user = await databaseService.users.findOne(
+        { _id: order.userId },
+        { projection: { email: 1, receiveNotificationEmails: 1 } }
+      )
+      if (!user) return
+      if (!ESSENTIAL_ORDER_EMAIL_STATUSES.includes(order.status) && user.receiveNotificationEmails === false) return
+      const summary = {
+        orderId: order._id.toString(),
+        status: order.status,
+        items: order.items.map(({ name, colorName, size, quantity, unitPrice }) => {
+          const variantName = [colorName, size].filter(Boolean).join(' / ')
+          return { name: variantName ? `${name} (${variantName})` : name, quantity, unitPrice }
+        }),
+        totalAmount: order.totalAmount,
+        totalAmountReduced: order.totalAmountReduced,
+        totalPayment: order.totalPayment
+      }
+      if (order.status === OrderStatus.WaitForConfirmation) {
+        await jobService.sendEmail({ template: 'orderConfirmation', toAddress: user.email, data: { order: summary } })
+      } else {
+        await jobService.sendEmail({
+          template: 'orderStatusChanged',
+          toAddress: user.email,
+          data: { order: summary, note }
+        })
+      }
+    } catch (error) {
+      console.log(error)
+    }
+  }
+
+  private getPreviousStatuses(status: OrderStatus) {
+    return orderStatuses.filter((item) => ORDER_STATUS_TRANSITIONS[item as OrderStatus].includes(status))
+  }
+
+  async cancelOrder({ orderId, userId, note }: { orderId: string; userId: string; note?: string }) {
+    const updatedOrder = await this.cancel({ orderId, userId, note })
+    return {
+      order: updatedOrder
+    }
+  }
+
+  async getAllOrders(query: PaginationReqQuery) {
+    const { page, skip, limit } = paginationConfig(query)
+    const match = { deletedAt: null }
+    const [orders, totalRows] = await Promise.all([
+      this.aggregateOrders({ match, skip, limit }),
+      databaseService.orders.countDocuments(match)
+    ])
+    return {
+      orders,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  async updateOrderStatus({
+    status,
+    orderId,
+    userId,
+    note
+  }: {
+    status: OrderStatus
+    orderId: string
+    userId: string
+    note?: string
+  }) {
+    if (status === OrderStatus.Cancelled) {
+      const cancelledOrder = await this.cancel({ orderId, userId, note })
+      return {
+        order: cancelledOrder
+      }
+    }
+    const order = await databaseService.orders.findOne({ _id: new ObjectId(orderId) })
+    // Đơn hàng thanh toán online phải được thanh toán trước khi xử lý, đơn hàng cũ không có paymentMethod được xem là COD
+    if (
+      order &&
+      order.paymentMethod !== undefined &&
+      order.paymentMethod !== PaymentMethod.Cod &&
+      order.paymentStatus !== PaymentStatus.Paid
+    ) {
+      throw new ErrorWithStatus({
+        message: ORDER_MESSAGES.ORDER_IS_NOT_PAID,
+        status: HttpStatusCode.PaymentRequired
+      })
+    }
+    let updatedOrder = await databaseService.orders.findOneAndUpdate(
       {
-        _id: new ObjectId(orderId)
+        _id: new ObjectId(orderId),
+        status: {
+          $in: this.getPreviousStatuses(status)
+        }
       },
       {
         $set: {
-          status: OrderStatus.Cancelled
+          status
+        },
+        $push: {
+          statusHistory: new OrderStatusHistory({
+            status,
+            changedBy: new ObjectId(userId),
+            note
+          })
         },
         $currentDate: {
           updatedAt: true
@@ -162,16 +228,136 @@ class OrderService {
         returnDocument: 'after'
       }
     )
+    if (!updatedOrder) {
+      throw new ErrorWithStatus({
+        message: ORDER_MESSAGES.ORDER_STATUS_TRANSITION_IS_INVALID,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (status === OrderStatus.Accomplished && updatedOrder.paymentMethod === PaymentMethod.Cod) {
+      await paymentService.completeCodPayment(updatedOrder._id)
+      updatedOrder = (await databaseService.orders.findOne({ _id: updatedOrder._id })) as WithId<Order>
+    }
+    await this.notifyCustomer({ order: updatedOrder, note })
     return {
       order: updatedOrder
     }
   }
 
-  async getAllOrders(query: PaginationReqQuery) {
-    const { page, skip, limit } = paginationConfig(query)
+  async getOrder(orderId: string) {
+    const orders = await databaseService.orders
+      .aggregate([
+        {
+          $match: {
+            _id: new ObjectId(orderId),
+            deletedAt: null
+          }
+        },
+        {
+          $addFields: {
+            items: {
+              $map: {
+                input: '$items',
+                as: 'item',
+                in: {
+                  $mergeObjects: [
+                    '$$item',
+                    {
+                      totalPrice: {
+                        $multiply: ['$$item.unitPrice', '$$item.quantity']
+                      }
+                    }
+                  ]
+                }
+              }
+            }
+          }
+        },
+        {
+          $lookup: {
+            from: 'vouchers',
+            localField: 'voucherId',
+            foreignField: '_id',
+            as: 'voucher'
+          }
+        },
+        {
+          $unwind: {
+            path: '$voucher',
+            preserveNullAndEmptyArrays: true
+          }
+        },
+        {
+          $lookup: {
+            from: 'users',
+            localField: 'userId',
+            foreignField: '_id',
+            // Chỉ trả về thông tin liên hệ, tránh lộ các trường bảo mật của tài khoản
+            pipeline: [
+              {
+                $project: {
+                  email: 1,
+                  fullName: 1,
+                  phoneNumber: 1
+                }
+              }
+            ],
+            as: 'customer'
+          }
+        },
+        {
+          $unwind: {
+            path: '$customer',
+            preserveNullAndEmptyArrays: true
+          }
+        },
+        {
+          $project: {
+            userId: 0,
+            voucherId: 0,
+            'items.cartItemId': 0,
+            'voucher.userId': 0,
+            'voucher.usageLimit': 0,
+            'voucher.usageLimitPerUser': 0,
+            'voucher.usedCount': 0,
+            'voucher.createdAt': 0,
+            'voucher.updatedAt': 0
+          }
+        }
+      ])
+      .toArray()
+    return {
+      order: orders[0]
+    }
+  }
+
+  async deleteOrder({ orderId, userId }: { orderId: string; userId: string }) {
+    await databaseService.orders.updateOne(
+      { _id: new ObjectId(orderId) },
+      {
+        $set: {
+          deletedAt: new Date(),
+          deletedBy: new ObjectId(userId)
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    return true
+  }
+
+  async getDeletedOrders(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const match = { deletedAt: { $ne: null } }
     const [orders, totalRows] = await Promise.all([
-      this.aggregateOrders({ match: {}, skip, limit }),
-      databaseService.orders.countDocuments({})
+      databaseService.orders
+        .find(match, { projection: { 'items.cartItemId': 0, statusHistory: 0 } })
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      databaseService.orders.countDocuments(match)
     ])
     return {
       orders,
@@ -182,14 +368,13 @@ class OrderService {
     }
   }
 
-  async updateOrderStatus({ status, orderId }: { status: OrderStatus; orderId: string }) {
-    const updatedOrder = await databaseService.orders.findOneAndUpdate(
-      {
-        _id: new ObjectId(orderId)
-      },
+  async restoreOrder(orderId: string) {
+    const order = await databaseService.orders.findOneAndUpdate(
+      { _id: new ObjectId(orderId) },
       {
         $set: {
-          status
+          deletedAt: null,
+          deletedBy: null
         },
         $currentDate: {
           updatedAt: true
@@ -200,13 +385,23 @@ class OrderService {
       }
     )
     return {
-      order: updatedOrder
+      order
     }
   }
 
-  async deleteOrder(orderId: string) {
-    await databaseService.orders.deleteOne({ _id: new ObjectId(orderId) })
-    return true
+  // Xoá vĩnh viễn các đơn hàng nằm trong thùng rác từ trước thời điểm before cùng các thanh toán của chúng
+  async purgeDeleted(before: Date) {
+    const orders = await databaseService.orders
+      .find({ deletedAt: { $lte: before } }, { projection: { _id: 1 } })
+      .toArray()
+    const orderIds = orders.map(({ _id }) => _id)
+    if (orderIds.length > 0) {
+      await databaseService.payments.deleteMany({ orderId: { $in: orderIds } })
+      await databaseService.orders.deleteMany({ _id: { $in: orderIds } })
+    }
+    return {
+      orders: orderIds.length
+    }
   }
 }
 
@@ -0,0 +1,310 @@
+import { ClientSession, ObjectId, WithId } from 'mongodb'
+
+import { HttpStatusCode, OrderStatus, PaymentMethod, PaymentStatus } from '~/constants/enum'
+import { PAYMENT_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import Order from '~/models/schemas/Order.schema'
+import Payment from '~/models/schemas/Payment.schema'
+import databaseService from '~/services/database.services'
+import { PaymentCallbackResult, paymentProviders, toMinorUnits } from '~/utils/payment'
+
+class PaymentService {
+  getRedirectUrl({ payment, ipAddress }: { payment: WithId<Payment>; ipAddress: string }) {
+    return paymentProviders[payment.method].createPaymentUrl({ payment, ipAddress })
+  }
+
+  // Tạo lượt thanh toán mới cho đơn hàng thanh toán online chưa thành công, các lượt đang chờ trước đó bị huỷ
+  async retry({ order, ipAddress }: { order: WithId<Order>; ipAddress: string }) {
+    const payment = new Payment({
+      _id: new ObjectId(),
+      orderId: order._id,
+      userId: order.userId,
+      method: order.paymentMethod,
+      amount: order.totalPayment
+    }) as WithId<Payment>
+    const session = databaseService.startSession()
+    try {
+      await session.withTransaction(async () => {
+        await this.cancelPendingPayments({ orderId: order._id, session })
+        await databaseService.payments.insertOne(payment, { session })
+        await databaseService.orders.updateOne(
+          {
+            _id: order._id
+          },
+          {
+            $set: {
+              paymentStatus: PaymentStatus.Pending
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+      })
+    } finally {
+      await session.endSession()
+    }
+    return {
+      payment,
+      redirectUrl: this.getRedirectUrl({ payment, ipAddress })
+    }
+  }
+
+  // Xử lý kết quả cổng thanh toán gửi về, gọi lại nhiều lần với cùng một lượt thanh toán không làm thay đổi kết quả
+  async handleCallback({ method, params }: { method: PaymentMethod; params: Record<string, string> }) {
+    const result = paymentProviders[method].verifyCallback(params)
+    if (!result) {
+      throw new ErrorWithStatus({
+        message: PAYMENT_MESSAGES.PAYMENT_SIGNATURE_IS_INVALID,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    const payment = ObjectId.isValid(result.paymentId)
+      ? await databaseService.payments.findOne({ _id: new ObjectId(result.paymentId), method })
+      : null
+    if (!payment) {
+      throw new ErrorWithStatus({
+        message: PAYMENT_MESSAGES.PAYMENT_NOT_FOUND,
+        status: HttpStatusCode.NotFound
+      })
+    }
+    if (toMinorUnits(payment.amount) !== toMinorUnits(result.amount)) {
+      throw new ErrorWithStatus({
+        message: PAYMENT_MESSAGES.PAYMENT_AMOUNT_IS_INVALID,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (payment.status === PaymentStatus.Cancelled && result.isSuccess) {
+      return this.markRefundRequired({ payment, result, params })
+    }
+    if (payment.status !== PaymentStatus.Pending) {
+      return {
+        payment,
+        isAlreadyHandled: true
+      }
+    }
+    const status = result.isSuccess ? PaymentStatus.Paid : PaymentStatus.Failed
+    const session = databaseService.startSession()
+    let isUpdated = false
+    try {
+      isUpdated = await session.withTransaction(async () => {
+        const updatedPayment = await databaseService.payments.findOneAndUpdate(
+          {
+            _id: payment._id,
+            status: PaymentStatus.Pending
+          },
+          {
+            $set: {
+              status,
+              transactionId: result.transactionId,
+              callbackData: params,
+              paidAt: result.isSuccess ? new Date() : null
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        if (!updatedPayment) return false
+        await databaseService.orders.updateOne(
+          {
+            _id: payment.orderId,
+            paymentStatus: {
+              $ne: PaymentStatus.Paid
+            }
+          },
+          {
+            $set: {
+              paymentStatus: status
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        return true
+      })
+    } finally {
+      await session.endSession()
+    }
+    const updatedPayment = await databaseService.payments.findOne({ _id: payment._id })
+    // Lượt thanh toán đã bị huỷ (ví dụ đơn hàng vừa bị huỷ) trong lúc đang xử lý kết quả
+    if (!isUpdated && updatedPayment?.status === PaymentStatus.Cancelled && result.isSuccess) {
+      return this.markRefundRequired({ payment: updatedPayment, result, params })
+    }
+    return {
+      payment: updatedPayment,
+      isAlreadyHandled: !isUpdated
+    }
+  }
+
+  // Lượt thanh toán đã bị huỷ (đơn hàng bị huỷ hoặc người dùng đã tạo lượt thanh toán khác) nhưng người dùng vẫn trả tiền thành công,
+  // ghi nhận lại giao dịch để quản trị viên hoàn tiền thay vì bỏ qua
+  private async markRefundRequired({
+    payment,
+    result,
+    params
+  }: {
+    payment: WithId<Payment>
+    result: PaymentCallbackResult
+    params: Record<string, string>
+  }) {
+    const session = databaseService.startSession()
+    try {
+      await session.withTransaction(async () => {
+        const updatedPayment = await databaseService.payments.findOneAndUpdate(
+          {
+            _id: payment._id,
+            status: PaymentStatus.Cancelled
+          },
+          {
+            $set: {
+              status: PaymentStatus.RefundRequired,
+              transactionId: result.transactionId,
+              callbackData: params,
+              paidAt: new Date()
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        if (!updatedPayment) return
+        await databaseService.orders.updateOne(
+          {
+            _id: payment.orderId,
+            status: OrderStatus.Cancelled
+          },
+          {
+            $set: {
+              paymentStatus: PaymentStatus.RefundRequired
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+      })
+    } finally {
+      await session.endSession()
+    }
+    const updatedPayment = await databaseService.payments.findOne({ _id: payment._id })
+    return {
+      payment: updatedPayment,
+      isAlreadyHandled: false
+    }
+  }
+
+  private async cancelPendingPayments({ orderId, session }: { orderId: ObjectId; session?: ClientSession }) {
+    await databaseService.payments.updateMany(
+      {
+        orderId,
+        status: PaymentStatus.Pending
+      },
+      {
+        $set: {
+          status: PaymentStatus.Cancelled
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+  }
+
+  // Huỷ các lượt thanh toán chưa hoàn tất khi đơn hàng bị huỷ, lượt đã thanh toán được đánh dấu cần hoàn tiền
+  async cancelByOrder({ orderId, session }: { orderId: ObjectId; session?: ClientSession }) {
+    await this.cancelPendingPayments({ orderId, session })
+    await databaseService.payments.updateMany(
+      {
+        orderId,
+        status: PaymentStatus.Paid
+      },
+      {
+        $set: {
+          status: PaymentStatus.RefundRequired
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    await databaseService.orders.updateOne(
+      {
+        _id: orderId,
+        paymentStatus: PaymentStatus.Paid
+      },
+      {
+        $set: {
+          paymentStatus: PaymentStatus.RefundRequired
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    await databaseService.orders.updateOne(
+      {
+        _id: orderId,
+        paymentStatus: {
+          $in: [PaymentStatus.Pending, PaymentStatus.Failed]
+        }
+      },
+      {
+        $set: {
+          paymentStatus: PaymentStatus.Cancelled
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    return true
+  }
+
+  // Đơn hàng COD được xem là đã thanh toán khi giao hàng thành công
+  async completeCodPayment(orderId: ObjectId) {
+    await Promise.all([
+      databaseService.payments.updateMany(
+        {
+          orderId,
+          method: PaymentMethod.Cod,
+          status: PaymentStatus.Pending
+        },
+        {
+          $set: {
+            status: PaymentStatus.Paid,
+            paidAt: new Date()
+          },
+          $currentDate: {
+            updatedAt: true
+          }
+        }
+      ),
+      databaseService.orders.updateOne(
+        {
+          _id: orderId,
+          paymentMethod: PaymentMethod.Cod
+        },
+        {
+          $set: {
+            paymentStatus: PaymentStatus.Paid
+          }
+        }
+      )
+    ])
+    return true
+  }
+}
+
+const paymentService = new PaymentService()
+export default paymentService
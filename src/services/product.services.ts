@@ -1,27 +1,49 @@
-import { ObjectId } from 'mongodb'
+import { ClientSession, Document, Filter, ObjectId } from 'mongodb'
 import omitBy from 'lodash/omitBy'
 import isUndefined from 'lodash/isUndefined'
 
 import { ENV_CONFIG } from '~/constants/config'
-import { ProductDiscountType, ProductStatus } from '~/constants/enum'
+import {
+  CartItemStatus,
+  HttpStatusCode,
+  OrderStatus,
+  ProductDiscountType,
+  ProductSortBy,
+  ProductStatus
+} from '~/constants/enum'
+import { PRODUCT_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus, ReferencedEntityError, StockShortageError } from '~/models/Errors'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
 import {
   CreateBrandReqBody,
+  CreateColorReqBody,
   CreateProductCategoryReqBody,
   CreateProductReqBody,
+  GetProductsReqQuery,
   UpdateProductCategoryReqBody
 } from '~/models/requests/Product.requests'
 import Brand from '~/models/schemas/Brand.schema'
-import Product from '~/models/schemas/Product.schema'
+import Color from '~/models/schemas/Color.schema'
+import Product, { ProductVariant } from '~/models/schemas/Product.schema'
 import ProductCategory from '~/models/schemas/ProductCategory.schema'
 import databaseService from '~/services/database.services'
-import { paginationConfig } from '~/utils/utils'
+import { getPriceAfterDiscount, getVariantsSummary, paginationConfig, slugify } from '~/utils/utils'
+
+const PRODUCT_SORTS: Record<ProductSortBy, Record<string, 1 | -1>> = {
+  [ProductSortBy.Newest]: { createdAt: -1 },
+  [ProductSortBy.PriceAsc]: { priceAfterDiscount: 1 },
+  [ProductSortBy.PriceDesc]: { priceAfterDiscount: -1 },
+  [ProductSortBy.BestSelling]: { soldCount: -1 },
+  [ProductSortBy.TopRated]: { starPoint: -1, reviewCount: -1 }
+}
 
 class ProductService {
   async createCategory({ dto, userId }: { dto: CreateProductCategoryReqBody; userId: string }) {
     const { insertedId } = await databaseService.productCategories.insertOne(
       new ProductCategory({
         ...dto,
+        parentId: dto.parentId ? new ObjectId(dto.parentId) : null,
+        slug: dto.slug || slugify(dto.name),
         userId: new ObjectId(userId)
       })
     )
@@ -32,13 +54,22 @@ class ProductService {
   }
 
   async updateCategory({ dto, categoryId }: { dto: UpdateProductCategoryReqBody; categoryId: string }) {
-    const dtoConfig = omitBy(dto, isUndefined)
+    const dtoConfig = omitBy(
+      {
+        ...dto,
+        parentId: dto.parentId === undefined ? undefined : dto.parentId && new ObjectId(dto.parentId),
+        // Danh mục được chuyển sang danh mục cha khác thì không gắn lại vào danh mục cha cũ khi khôi phục
+        previousParentId: dto.parentId === undefined ? undefined : null,
+        slug: dto.slug || undefined
+      },
+      isUndefined
+    )
     const category = await databaseService.productCategories.findOneAndUpdate(
       {
         _id: new ObjectId(categoryId)
       },
       {
-        $set: dto,
+        $set: dtoConfig,
         $currentDate: {
           updatedAt: true
         }
@@ -52,20 +83,89 @@ class ProductService {
     }
   }
 
-  async deleteCategory(categoryId: string) {
-    await databaseService.productCategories.deleteOne({ _id: new ObjectId(categoryId) })
-    return true
+  async getCategoryReferences(categoryId: ObjectId, session?: ClientSession) {
+    const [productCategories, products] = await Promise.all([
+      databaseService.productCategories.countDocuments({ parentId: categoryId, deletedAt: null }, { session }),
+      databaseService.products.countDocuments({ productCategoryId: categoryId, deletedAt: null }, { session })
+    ])
+    return {
+      productCategories,
+      products
+    }
+  }
+
+  // Danh mục con luôn được chuyển lên danh mục cha của danh mục bị xoá và được gắn lại khi danh mục này được khôi phục
+  // Còn sản phẩm thuộc danh mục thì chỉ xoá khi force, khi đó các sản phẩm cũng được chuyển vào thùng rác
+  async deleteCategory({ categoryId, userId, force }: { categoryId: string; userId: string; force: boolean }) {
+    const _id = new ObjectId(categoryId)
+    const session = databaseService.startSession()
+    try {
+      return await session.withTransaction(async () => {
+        const references = await this.getCategoryReferences(_id, session)
+        if (references.products > 0 && !force) {
+          throw new ReferencedEntityError({ references })
+        }
+        const category = await databaseService.productCategories.findOneAndUpdate(
+          { _id, deletedAt: null },
+          {
+            $set: {
+              deletedAt: new Date(),
+              deletedBy: new ObjectId(userId)
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        // Danh mục con đã được chuyển lên từ trước thì giữ nguyên danh mục cha ban đầu
+        await databaseService.productCategories.updateMany(
+          { parentId: _id, deletedAt: null, previousParentId: null },
+          {
+            $set: {
+              previousParentId: _id
+            }
+          },
+          { session }
+        )
+        await databaseService.productCategories.updateMany(
+          { parentId: _id, deletedAt: null },
+          {
+            $set: {
+              parentId: category ? category.parentId : null
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        const productReferences = await this.softDeleteProducts({
+          filter: { productCategoryId: _id },
+          userId,
+          session
+        })
+        return {
+          references: {
+            ...references,
+            ...productReferences
+          }
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
   }
 
   async getAllCategories(query: PaginationReqQuery) {
     const { page, limit, skip } = paginationConfig(query)
     const [productCategories, totalRows] = await Promise.all([
       databaseService.productCategories
-        .find({}, { projection: { userId: 0 } })
+        .find({ deletedAt: null }, { projection: { userId: 0 } })
         .skip(skip)
         .limit(limit)
         .toArray(),
-      databaseService.productCategories.countDocuments({})
+      databaseService.productCategories.countDocuments({ deletedAt: null })
     ])
     return {
       productCategories,
@@ -76,10 +176,109 @@ class ProductService {
     }
   }
 
+  async getCategoryTree() {
+    const categories = await databaseService.productCategories
+      .find({ deletedAt: null }, { projection: { userId: 0 } })
+      .sort({ order: 1, name: 1 })
+      .toArray()
+    type CategoryNode = (typeof categories)[number] & { children: CategoryNode[] }
+    const nodes = new Map<string, CategoryNode>(
+      categories.map((category) => [category._id.toString(), { ...category, children: [] }])
+    )
+    const tree: CategoryNode[] = []
+    nodes.forEach((node) => {
+      const parent = node.parentId ? nodes.get(node.parentId.toString()) : undefined
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        tree.push(node)
+      }
+    })
+    return {
+      categories: tree
+    }
+  }
+
+  // Id của danh mục và toàn bộ danh mục con cháu của nó
+  async getCategoryIds(categoryId: string | ObjectId) {
+    const [category] = await databaseService.productCategories
+      .aggregate<{ _id: ObjectId; descendants: { _id: ObjectId }[] }>([
+        {
+          $match: {
+            _id: new ObjectId(categoryId)
+          }
+        },
+        {
+          $graphLookup: {
+            from: 'productCategories',
+            startWith: '$_id',
+            connectFromField: '_id',
+            connectToField: 'parentId',
+            as: 'descendants',
+            restrictSearchWithMatch: {
+              deletedAt: null
+            }
+          }
+        },
+        {
+          $project: {
+            'descendants._id': 1
+          }
+        }
+      ])
+      .toArray()
+    if (!category) return []
+    return [category._id, ...category.descendants.map(({ _id }) => _id)]
+  }
+
+  // Đường dẫn từ danh mục gốc tới danh mục hiện tại
+  async getBreadcrumbs(categoryId: ObjectId) {
+    const [category] = await databaseService.productCategories
+      .aggregate<{
+        _id: ObjectId
+        name: string
+        slug: string
+        ancestors: { _id: ObjectId; name: string; slug: string; depth: number }[]
+      }>([
+        {
+          $match: {
+            _id: categoryId
+          }
+        },
+        {
+          $graphLookup: {
+            from: 'productCategories',
+            startWith: '$parentId',
+            connectFromField: 'parentId',
+            connectToField: '_id',
+            as: 'ancestors',
+            depthField: 'depth'
+          }
+        },
+        {
+          $project: {
+            name: 1,
+            slug: 1,
+            'ancestors._id': 1,
+            'ancestors.name': 1,
+            'ancestors.slug': 1,
+            'ancestors.depth': 1
+          }
+        }
+      ])
+      .toArray()
+    if (!category) return []
+    const ancestors = category.ancestors
+      .sort((a, b) => b.depth - a.depth)
+      .map(({ _id, name, slug }) => ({ _id, name, slug }))
+    return [...ancestors, { _id: category._id, name: category.name, slug: category.slug }]
+  }
+
   async getCategory(categoryId: string) {
     const category = await databaseService.productCategories.findOne(
       {
-        _id: new ObjectId(categoryId)
+        _id: new ObjectId(categoryId),
+        deletedAt: null
       },
       {
         projection: {
@@ -128,20 +327,57 @@ class ProductService {
     }
   }
 
-  async deleteBrand(brandId: string) {
-    await databaseService.brands.deleteOne({ _id: new ObjectId(brandId) })
-    return true
+  async getBrandReferences(brandId: ObjectId, session?: ClientSession) {
+    const products = await databaseService.products.countDocuments({ brandId, deletedAt: null }, { session })
+    return {
+      products
+    }
+  }
+
+  async deleteBrand({ brandId, userId, force }: { brandId: string; userId: string; force: boolean }) {
+    const _id = new ObjectId(brandId)
+    const session = databaseService.startSession()
+    try {
+      return await session.withTransaction(async () => {
+        const references = await this.getBrandReferences(_id, session)
+        if (references.products > 0 && !force) {
+          throw new ReferencedEntityError({ references })
+        }
+        await databaseService.brands.updateOne(
+          { _id, deletedAt: null },
+          {
+            $set: {
+              deletedAt: new Date(),
+              deletedBy: new ObjectId(userId)
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+        const productReferences = await this.softDeleteProducts({ filter: { brandId: _id }, userId, session })
+        return {
+          references: {
+            ...references,
+            ...productReferences
+          }
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
   }
 
   async getAllBrands(query: PaginationReqQuery) {
     const { page, limit, skip } = paginationConfig(query)
     const [brands, totalRows] = await Promise.all([
       databaseService.brands
-        .find({}, { projection: { userId: 0 } })
+        .find({ deletedAt: null }, { projection: { userId: 0 } })
         .skip(skip)
         .limit(limit)
         .toArray(),
-      databaseService.brands.countDocuments({})
+      databaseService.brands.countDocuments({ deletedAt: null })
     ])
     return {
       brands,
@@ -155,7 +391,8 @@ class ProductService {
   async getBrand(brandId: string) {
     const brand = await databaseService.brands.findOne(
       {
-        _id: new ObjectId(brandId)
+        _id: new ObjectId(brandId),
+        deletedAt: null
       },
       {
         projection: {
@@ -168,9 +405,108 @@ class ProductService {
     }
   }
 
+  async createColor({ dto, userId }: { dto: CreateColorReqBody; userId: string }) {
+    const { insertedId } = await databaseService.colors.insertOne(
+      new Color({
+        ...dto,
+        userId: new ObjectId(userId)
+      })
+    )
+    const insertedColor = await databaseService.colors.findOne({ _id: insertedId })
+    return {
+      color: insertedColor
+    }
+  }
+
+  async updateColor({ dto, colorId }: { dto: CreateColorReqBody; colorId: string }) {
+    const updatedColor = await databaseService.colors.findOneAndUpdate(
+      {
+        _id: new ObjectId(colorId)
+      },
+      {
+        $set: dto,
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        returnDocument: 'after',
+        projection: {
+          userId: 0
+        }
+      }
+    )
+    return {
+      color: updatedColor
+    }
+  }
+
+  async deleteColor(colorId: string) {
+    const product = await databaseService.products.findOne({ 'variants.colorId': new ObjectId(colorId) })
+    if (product) {
+      throw new ErrorWithStatus({
+        message: PRODUCT_MESSAGES.COLOR_IS_IN_USE,
+        status: HttpStatusCode.Conflict
+      })
+    }
+    await databaseService.colors.deleteOne({ _id: new ObjectId(colorId) })
+    return true
+  }
+
+  async getAllColors() {
+    const colors = await databaseService.colors
+      .find({}, { projection: { userId: 0 } })
+      .sort({ name: 1 })
+      .toArray()
+    return {
+      colors
+    }
+  }
+
+  async getColor(colorId: string) {
+    const color = await databaseService.colors.findOne(
+      {
+        _id: new ObjectId(colorId)
+      },
+      {
+        projection: {
+          userId: 0
+        }
+      }
+    )
+    return {
+      color
+    }
+  }
+
+  // Chuyển các phiên bản trong request thành ProductVariant, giá và tồn kho của sản phẩm được tính từ các phiên bản
+  private getProductVariants(dto: CreateProductReqBody) {
+    const variants = (dto.variants || []).map(
+      (variant) =>
+        new ProductVariant({
+          _id: variant._id ? new ObjectId(variant._id) : undefined,
+          sku: variant.sku.trim(),
+          colorId: variant.colorId ? new ObjectId(variant.colorId) : null,
+          size: variant.size?.trim(),
+          price: variant.price,
+          availableCount: variant.availableCount,
+          photos: variant.photos?.map((photo) => new ObjectId(photo)),
+          discountType: dto.discountType,
+          discountValue: dto.discountValue
+        })
+    )
+    const summary = getVariantsSummary(variants)
+    return {
+      variants,
+      price: summary ? summary.price : (dto.price as number),
+      availableCount: summary ? summary.availableCount : (dto.availableCount as number)
+    }
+  }
+
   async createProduct({ dto, userId }: { dto: CreateProductReqBody; userId: string }) {
     const dtoConfig = {
       ...dto,
+      ...this.getProductVariants(dto),
       productCategoryId: new ObjectId(dto.productCategoryId),
       brandId: new ObjectId(dto.brandId),
       thumbnail: new ObjectId(dto.thumbnail),
@@ -185,12 +521,17 @@ class ProductService {
   }
 
   async updateProduct({ dto, productId }: { dto: CreateProductReqBody; productId: string }) {
+    const { variants, price, availableCount } = this.getProductVariants(dto)
     const dtoConfig = {
       ...dto,
+      variants,
+      price,
+      availableCount,
       productCategoryId: new ObjectId(dto.productCategoryId),
       brandId: new ObjectId(dto.brandId),
       thumbnail: new ObjectId(dto.thumbnail),
-      photos: dto.photos?.map((photo) => new ObjectId(photo))
+      photos: dto.photos?.map((photo) => new ObjectId(photo)),
+      priceAfterDiscount: getPriceAfterDiscount({ ...dto, price })
     }
     const updatedProduct = await databaseService.products.findOneAndUpdate(
       {
@@ -211,39 +552,439 @@ class ProductService {
     }
   }
 
-  async deleteProduct(productId: string) {
-    await databaseService.products.deleteOne({ _id: new ObjectId(productId) })
-    return true
+  // Đơn hàng và đánh giá chỉ được thống kê, không bị xoá vì sản phẩm vẫn có thể được khôi phục
+  async getProductReferences(productIds: ObjectId[], session?: ClientSession) {
+    const [orders, cartItems, wishlists, reviews] = await Promise.all([
+      databaseService.orders.countDocuments({ 'items.productId': { $in: productIds }, deletedAt: null }, { session }),
+      databaseService.cartItems.countDocuments(
+        { productId: { $in: productIds }, status: CartItemStatus.InCart },
+        { session }
+      ),
+      databaseService.wishlists.countDocuments({ productId: { $in: productIds } }, { session }),
+      databaseService.reviews.countDocuments({ productId: { $in: productIds } }, { session })
+    ])
+    return {
+      orders,
+      cartItems,
+      wishlists,
+      reviews
+    }
   }
 
-  async getAllProducts(query: PaginationReqQuery) {
+  // Chuyển các sản phẩm vào thùng rác, trả về số bản ghi đang tham chiếu tới chúng
+  // Giỏ hàng và danh sách yêu thích được giữ lại (chỉ bị ẩn khi đọc) để khôi phục được trạng thái cũ
+  private async softDeleteProducts({
+    filter,
+    userId,
+    session
+  }: {
+    filter: Filter<Product>
+    userId: string
+    session: ClientSession
+  }) {
+    const products = await databaseService.products
+      .find({ ...filter, deletedAt: null }, { projection: { _id: 1 }, session })
+      .toArray()
+    const productIds = products.map(({ _id }) => _id)
+    if (productIds.length === 0) return {}
+    const references = await this.getProductReferences(productIds, session)
+    await databaseService.products.updateMany(
+      { _id: { $in: productIds } },
+      {
+        $set: {
+          deletedAt: new Date(),
+          deletedBy: new ObjectId(userId)
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    return references
+  }
+
+  async deleteProduct({ productId, userId, force }: { productId: string; userId: string; force: boolean }) {
+    const _id = new ObjectId(productId)
+    const session = databaseService.startSession()
+    try {
+      return await session.withTransaction(async () => {
+        const references = await this.getProductReferences([_id], session)
+        if (Object.values(references).some((count) => count > 0) && !force) {
+          throw new ReferencedEntityError({ references })
+        }
+        await this.softDeleteProducts({ filter: { _id }, userId, session })
+        return {
+          references
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  async getDeletedProducts(query: PaginationReqQuery) {
     const { page, limit, skip } = paginationConfig(query)
+    const match = { deletedAt: { $ne: null } }
     const [products, totalRows] = await Promise.all([
-      databaseService.products
-        .aggregate([
-          {
-            $lookup: {
-              from: 'users',
-              localField: 'userId',
-              foreignField: '_id',
-              as: 'author'
-            }
-          },
+      databaseService.products.find(match).sort({ deletedAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.products.countDocuments(match)
+    ])
+    return {
+      products,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  async getDeletedBrands(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const match = { deletedAt: { $ne: null } }
+    const [brands, totalRows] = await Promise.all([
+      databaseService.brands.find(match).sort({ deletedAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.brands.countDocuments(match)
+    ])
+    return {
+      brands,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  async getDeletedCategories(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const match = { deletedAt: { $ne: null } }
+    const [productCategories, totalRows] = await Promise.all([
+      databaseService.productCategories.find(match).sort({ deletedAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.productCategories.countDocuments(match)
+    ])
+    return {
+      productCategories,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  // Chỉ khôi phục được sản phẩm khi thương hiệu và danh mục của nó vẫn còn hoạt động
+  // và SKU của các phiên bản chưa được sản phẩm khác sử dụng trong lúc nằm trong thùng rác
+  async restoreProduct(productId: string) {
+    const product = await databaseService.products.findOne({ _id: new ObjectId(productId) })
+    const skus = (product?.variants || []).map((variant) => variant.sku)
+    const [brand, category, duplicatedProduct] = await Promise.all([
+      databaseService.brands.findOne({ _id: product?.brandId, deletedAt: null }),
+      databaseService.productCategories.findOne({ _id: product?.productCategoryId, deletedAt: null }),
+      skus.length > 0 ? databaseService.products.findOne({ 'variants.sku': { $in: skus }, deletedAt: null }) : null
+    ])
+    if (!brand) {
+      throw new ErrorWithStatus({
+        message: PRODUCT_MESSAGES.PRODUCT_BRAND_IS_DELETED,
+        status: HttpStatusCode.Conflict
+      })
+    }
+    if (!category) {
+      throw new ErrorWithStatus({
+        message: PRODUCT_MESSAGES.PRODUCT_CATEGORY_IS_DELETED,
+        status: HttpStatusCode.Conflict
+      })
+    }
+    if (duplicatedProduct) {
+      throw new ErrorWithStatus({
+        message: PRODUCT_MESSAGES.PRODUCT_VARIANT_SKU_ALREADY_EXISTS,
+        status: HttpStatusCode.Conflict
+      })
+    }
+    const restoredProduct = await databaseService.products.findOneAndUpdate(
+      { _id: new ObjectId(productId) },
+      {
+        $set: {
+          deletedAt: null,
+          deletedBy: null
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { returnDocument: 'after' }
+    )
+    return {
+      product: restoredProduct
+    }
+  }
+
+  async restoreBrand(brandId: string) {
+    const brand = await databaseService.brands.findOneAndUpdate(
+      { _id: new ObjectId(brandId) },
+      {
+        $set: {
+          deletedAt: null,
+          deletedBy: null
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        returnDocument: 'after'
+      }
+    )
+    return {
+      brand
+    }
+  }
+
+  async restoreCategory(categoryId: string) {
+    const category = await databaseService.productCategories.findOne({ _id: new ObjectId(categoryId) })
+    if (category?.parentId) {
+      const parent = await databaseService.productCategories.findOne({ _id: category.parentId, deletedAt: null })
+      if (!parent) {
+        throw new ErrorWithStatus({
+          message: PRODUCT_MESSAGES.PRODUCT_CATEGORY_PARENT_IS_DELETED,
+          status: HttpStatusCode.Conflict
+        })
+      }
+    }
+    const _id = new ObjectId(categoryId)
+    const session = databaseService.startSession()
+    try {
+      return await session.withTransaction(async () => {
+        const restoredCategory = await databaseService.productCategories.findOneAndUpdate(
+          { _id },
           {
-            $unwind: {
-              path: '$author'
+            $set: {
+              deletedAt: null,
+              deletedBy: null
+            },
+            $currentDate: {
+              updatedAt: true
             }
           },
+          { returnDocument: 'after', session }
+        )
+        // Gắn lại các danh mục con đã được chuyển lên khi danh mục này bị xoá
+        await databaseService.productCategories.updateMany(
+          { previousParentId: _id },
           {
-            $lookup: {
-              from: 'productCategories',
-              localField: 'productCategoryId',
-              foreignField: '_id',
-              as: 'category'
+            $set: {
+              parentId: _id,
+              previousParentId: null
+            },
+            $currentDate: {
+              updatedAt: true
             }
           },
-          {
-            $unwind: {
+          { session }
+        )
+        return {
+          productCategory: restoredCategory
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  // Xoá vĩnh viễn những gì nằm trong thùng rác từ trước thời điểm before
+  // Thương hiệu và danh mục còn được sản phẩm hoặc danh mục đang hoạt động tham chiếu thì được giữ lại
+  async purgeDeleted(before: Date) {
+    const products = await databaseService.products
+      .find({ deletedAt: { $lte: before } }, { projection: { _id: 1 } })
+      .toArray()
+    const productIds = products.map(({ _id }) => _id)
+    if (productIds.length > 0) {
+      const reviews = await databaseService.reviews
+        .find({ productId: { $in: productIds } }, { projection: { _id: 1 } })
+        .toArray()
+      await Promise.all([
+        databaseService.cartItems.deleteMany({ productId: { $in: productIds }, status: CartItemStatus.InCart }),
+        databaseService.wishlists.deleteMany({ productId: { $in: productIds } }),
+        databaseService.reviewReplies.deleteMany({ reviewId: { $in: reviews.map(({ _id }) => _id) } }),
+        databaseService.reviews.deleteMany({ productId: { $in: productIds } })
+      ])
+      await databaseService.products.deleteMany({ _id: { $in: productIds } })
+    }
+    const [brands, categories] = await Promise.all([
+      databaseService.brands.find({ deletedAt: { $lte: before } }, { projection: { _id: 1 } }).toArray(),
+      databaseService.productCategories.find({ deletedAt: { $lte: before } }, { projection: { _id: 1 } }).toArray()
+    ])
+    const [usedBrandIds, usedCategoryIds, parentCategoryIds] = await Promise.all([
+      databaseService.products.distinct('brandId', { brandId: { $in: brands.map(({ _id }) => _id) } }),
+      databaseService.products.distinct('productCategoryId', {
+        productCategoryId: { $in: categories.map(({ _id }) => _id) }
+      }),
+      databaseService.productCategories.distinct('parentId', {
+        parentId: { $in: categories.map(({ _id }) => _id) },
+        deletedAt: null
+      })
+    ])
+    const isUsed = (ids: (ObjectId | null)[], id: ObjectId) => ids.some((item) => item && item.equals(id))
+    const brandIds = brands.map(({ _id }) => _id).filter((_id) => !isUsed(usedBrandIds, _id))
+    const categoryIds = categories
+      .map(({ _id }) => _id)
+      .filter((_id) => !isUsed(usedCategoryIds, _id) && !isUsed(parentCategoryIds, _id))
+    await Promise.all([
+      brandIds.length > 0 && databaseService.brands.deleteMany({ _id: { $in: brandIds } }),
+      categoryIds.length > 0 && databaseService.productCategories.deleteMany({ _id: { $in: categoryIds } }),
+      categoryIds.length > 0 &&
+        databaseService.productCategories.updateMany(
+          { previousParentId: { $in: categoryIds } },
+          {
+            $set: {
+              previousParentId: null
+            }
+          }
+        )
+    ])
+    return {
+      products: productIds.length,
+      brands: brandIds.length,
+      productCategories: categoryIds.length
+    }
+  }
+
+  // Trừ tồn kho cho từng sản phẩm (và phiên bản nếu có), báo lỗi kèm danh sách sản phẩm không đủ hàng
+  async reserveStock({
+    items,
+    session
+  }: {
+    items: { productId: ObjectId; variantId?: ObjectId | null; quantity: number }[]
+    session: ClientSession
+  }) {
+    const shortages = []
+    for (const { productId, variantId, quantity } of items) {
+      const { modifiedCount } = await databaseService.products.updateOne(
+        variantId
+          ? {
+              _id: productId,
+              variants: {
+                $elemMatch: {
+                  _id: variantId,
+                  availableCount: {
+                    $gte: quantity
+                  }
+                }
+              }
+            }
+          : {
+              _id: productId,
+              'variants.0': {
+                $exists: false
+              },
+              availableCount: {
+                $gte: quantity
+              }
+            },
+        {
+          $inc: {
+            availableCount: -quantity,
+            soldCount: quantity,
+            ...(variantId && { 'variants.$.availableCount': -quantity })
+          },
+          $currentDate: {
+            updatedAt: true
+          }
+        },
+        { session }
+      )
+      if (modifiedCount === 0) {
+        const product = await databaseService.products.findOne({ _id: productId }, { session })
+        const variant = variantId ? product?.variants.find((item) => item._id.equals(variantId)) : undefined
+        shortages.push({
+          productId,
+          variantId: variantId || null,
+          name: product ? product.name : null,
+          sku: variant ? variant.sku : null,
+          quantity,
+          availableCount: (variantId ? variant?.availableCount : product?.availableCount) || 0
+        })
+      }
+    }
+    if (shortages.length > 0) {
+      throw new StockShortageError({ shortages })
+    }
+    return true
+  }
+
+  async restock({
+    items,
+    session
+  }: {
+    items: { productId: ObjectId; variantId?: ObjectId | null; quantity: number }[]
+    session: ClientSession
+  }) {
+    if (items.length === 0) return true
+    await databaseService.products.bulkWrite(
+      items.map(({ productId, variantId, quantity }) => ({
+        updateOne: {
+          filter: {
+            _id: productId,
+            ...(variantId && { 'variants._id': variantId })
+          },
+          update: {
+            $inc: {
+              availableCount: quantity,
+              soldCount: -quantity,
+              ...(variantId && { 'variants.$.availableCount': quantity })
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          }
+        }
+      })),
+      { session }
+    )
+    return true
+  }
+
+  async getAllProducts(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const [products, totalRows] = await Promise.all([
+      databaseService.products
+        .aggregate([
+          {
+            $match: {
+              deletedAt: null
+            }
+          },
+          {
+            $lookup: {
+              from: 'users',
+              localField: 'userId',
+              foreignField: '_id',
+              pipeline: [
+                {
+                  $project: {
+                    email: 1,
+                    fullName: 1,
+                    createdAt: 1,
+                    updatedAt: 1
+                  }
+                }
+              ],
+              as: 'author'
+            }
+          },
+          {
+            $unwind: {
+              path: '$author'
+            }
+          },
+          {
+            $lookup: {
+              from: 'productCategories',
+              localField: 'productCategoryId',
+              foreignField: '_id',
+              as: 'category'
+            }
+          },
+          {
+            $unwind: {
               path: '$category'
             }
           },
@@ -314,12 +1055,14 @@ class ProductService {
                         $subtract: [
                           '$price',
                           {
-                            $multiply: [
-                              '$price',
-                              {
-                                $divide: ['$discountValue', 100]
-                              }
-                            ]
+                            $floor: {
+                              $divide: [
+                                {
+                                  $multiply: ['$price', '$discountValue']
+                                },
+                                100
+                              ]
+                            }
                           }
                         ]
                       }
@@ -376,15 +1119,6 @@ class ProductService {
           },
           {
             $project: {
-              'author.password': 0,
-              'author.phoneNumber': 0,
-              'author.avatar': 0,
-              'author.verifyEmailToken': 0,
-              'author.forgotPasswordToken': 0,
-              'author.addresses': 0,
-              'author.status': 0,
-              'author.role': 0,
-              'author.verify': 0,
               'category.userId': 0,
               'brand.userId': 0
             }
@@ -397,7 +1131,7 @@ class ProductService {
           }
         ])
         .toArray(),
-      databaseService.products.countDocuments({})
+      databaseService.products.countDocuments({ deletedAt: null })
     ])
     return {
       products,
@@ -408,12 +1142,33 @@ class ProductService {
     }
   }
 
-  async getProduct(productId: string) {
+  // Thêm cờ isFavorited cho các sản phẩm nằm trong danh sách yêu thích của người dùng
+  private async markFavorited({ products, userId }: { products: Document[]; userId: string }) {
+    const wishlists = await databaseService.wishlists
+      .find(
+        {
+          userId: new ObjectId(userId),
+          productId: {
+            $in: products.map((product) => product._id)
+          }
+        },
+        { projection: { productId: 1 } }
+      )
+      .toArray()
+    const favoritedProductIds = new Set(wishlists.map(({ productId }) => productId.toString()))
+    return products.map((product) => ({
+      ...product,
+      isFavorited: favoritedProductIds.has(product._id.toString())
+    }))
+  }
+
+  async getProduct({ productId, userId }: { productId: string; userId?: string }) {
     const products = await databaseService.products
       .aggregate([
         {
           $match: {
-            _id: new ObjectId(productId)
+            _id: new ObjectId(productId),
+            deletedAt: null
           }
         },
         {
@@ -421,6 +1176,16 @@ class ProductService {
             from: 'users',
             localField: 'userId',
             foreignField: '_id',
+            pipeline: [
+              {
+                $project: {
+                  email: 1,
+                  fullName: 1,
+                  createdAt: 1,
+                  updatedAt: 1
+                }
+              }
+            ],
             as: 'author'
           }
         },
@@ -476,8 +1241,91 @@ class ProductService {
             as: 'photos'
           }
         },
+        {
+          $lookup: {
+            from: 'colors',
+            localField: 'variants.colorId',
+            foreignField: '_id',
+            as: 'variantColors'
+          }
+        },
+        {
+          $lookup: {
+            from: 'files',
+            localField: 'variants.photos',
+            foreignField: '_id',
+            as: 'variantPhotos'
+          }
+        },
         {
           $addFields: {
+            variants: {
+              $map: {
+                input: {
+                  $ifNull: ['$variants', []]
+                },
+                as: 'variant',
+                in: {
+                  _id: '$$variant._id',
+                  sku: '$$variant.sku',
+                  color: {
+                    $let: {
+                      vars: {
+                        color: {
+                          $arrayElemAt: [
+                            {
+                              $filter: {
+                                input: '$variantColors',
+                                as: 'color',
+                                cond: {
+                                  $eq: ['$$color._id', '$$variant.colorId']
+                                }
+                              }
+                            },
+                            0
+                          ]
+                        }
+                      },
+                      in: {
+                        $cond: [
+                          '$$color',
+                          {
+                            _id: '$$color._id',
+                            name: '$$color.name',
+                            hexCode: '$$color.hexCode'
+                          },
+                          null
+                        ]
+                      }
+                    }
+                  },
+                  size: '$$variant.size',
+                  originalPrice: '$$variant.price',
+                  priceAfterDiscount: '$$variant.priceAfterDiscount',
+                  availableCount: '$$variant.availableCount',
+                  photos: {
+                    $map: {
+                      input: {
+                        $filter: {
+                          input: '$variantPhotos',
+                          as: 'photo',
+                          cond: {
+                            $in: ['$$photo._id', '$$variant.photos']
+                          }
+                        }
+                      },
+                      as: 'photo',
+                      in: {
+                        _id: '$$photo._id',
+                        url: {
+                          $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$$photo.name']
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            },
             thumbnailConfig: {
               _id: '$thumbnail._id',
               url: {
@@ -515,12 +1363,14 @@ class ProductService {
                       $subtract: [
                         '$price',
                         {
-                          $multiply: [
-                            '$price',
-                            {
-                              $divide: ['$discountValue', 100]
-                            }
-                          ]
+                          $floor: {
+                            $divide: [
+                              {
+                                $multiply: ['$price', '$discountValue']
+                              },
+                              100
+                            ]
+                          }
                         }
                       ]
                     }
@@ -567,6 +1417,9 @@ class ProductService {
             availableCount: {
               $first: '$availableCount'
             },
+            variants: {
+              $first: '$variants'
+            },
             discountType: {
               $first: '$discountType'
             },
@@ -583,29 +1436,167 @@ class ProductService {
         },
         {
           $project: {
-            'author.password': 0,
-            'author.phoneNumber': 0,
-            'author.avatar': 0,
-            'author.verifyEmailToken': 0,
-            'author.forgotPasswordToken': 0,
-            'author.addresses': 0,
-            'author.status': 0,
-            'author.role': 0,
-            'author.verify': 0,
             'category.userId': 0,
             'brand.userId': 0
           }
         }
       ])
       .toArray()
+    if (products.length === 0) {
+      return {
+        product: undefined
+      }
+    }
+    const [product] = userId ? await this.markFavorited({ products, userId }) : products
     return {
-      product: products[0]
+      product: {
+        ...product,
+        breadcrumbs: await this.getBreadcrumbs(products[0].category._id)
+      }
     }
   }
 
-  async getProducts(query: PaginationReqQuery) {
+  // Các stage dùng chung khi trả về danh sách sản phẩm: thông tin tác giả, danh mục, thương hiệu và đường dẫn ảnh
+  getProductListStages(): Document[] {
+    return [
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'userId',
+          foreignField: '_id',
+          pipeline: [
+            {
+              $project: {
+                email: 1,
+                fullName: 1,
+                createdAt: 1,
+                updatedAt: 1
+              }
+            }
+          ],
+          as: 'author'
+        }
+      },
+      {
+        $unwind: {
+          path: '$author'
+        }
+      },
+      {
+        $lookup: {
+          from: 'productCategories',
+          localField: 'productCategoryId',
+          foreignField: '_id',
+          as: 'category'
+        }
+      },
+      {
+        $unwind: {
+          path: '$category'
+        }
+      },
+      {
+        $lookup: {
+          from: 'brands',
+          localField: 'brandId',
+          foreignField: '_id',
+          as: 'brand'
+        }
+      },
+      {
+        $unwind: {
+          path: '$brand'
+        }
+      },
+      {
+        $lookup: {
+          from: 'files',
+          localField: 'thumbnail',
+          foreignField: '_id',
+          as: 'thumbnail'
+        }
+      },
+      {
+        $unwind: {
+          path: '$thumbnail'
+        }
+      },
+      {
+        $lookup: {
+          from: 'files',
+          localField: 'photos',
+          foreignField: '_id',
+          as: 'photos'
+        }
+      },
+      {
+        $project: {
+          author: 1,
+          category: 1,
+          brand: 1,
+          thumbnail: {
+            $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$thumbnail.name']
+          },
+          name: 1,
+          description: 1,
+          photos: {
+            $map: {
+              input: '$photos',
+              as: 'photo',
+              in: {
+                $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$$photo.name']
+              }
+            }
+          },
+          status: 1,
+          originalPrice: '$price',
+          priceAfterDiscount: 1,
+          availableCount: 1,
+          soldCount: 1,
+          starPoint: 1,
+          reviewCount: 1,
+          createdAt: 1,
+          updatedAt: 1
+        }
+      },
+      {
+        $project: {
+          'category.userId': 0,
+          'brand.userId': 0
+        }
+      }
+    ]
+  }
+
+  async getProducts({ query, userId }: { query: GetProductsReqQuery; userId?: string }) {
     const { page, limit, skip } = paginationConfig(query)
-    const match = { status: ProductStatus.Active }
+    const { keyword, categoryId, brandId, minPrice, maxPrice, minStarPoint, inStock, sortBy } = query
+    const match: Filter<Product> = { status: ProductStatus.Active, deletedAt: null }
+    if (keyword) {
+      match.$text = { $search: keyword }
+    }
+    if (categoryId) {
+      match.productCategoryId = { $in: await this.getCategoryIds(categoryId) }
+    }
+    if (brandId) {
+      match.brandId = new ObjectId(brandId)
+    }
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      match.priceAfterDiscount = omitBy(
+        {
+          $gte: minPrice !== undefined ? Number(minPrice) : undefined,
+          $lte: maxPrice !== undefined ? Number(maxPrice) : undefined
+        },
+        isUndefined
+      )
+    }
+    if (minStarPoint !== undefined) {
+      match.starPoint = { $gte: Number(minStarPoint) }
+    }
+    if (inStock === 'true') {
+      match.availableCount = { $gt: 0 }
+    }
+    const sort = PRODUCT_SORTS[sortBy || ProductSortBy.Newest]
     const [products, totalRows] = await Promise.all([
       databaseService.products
         .aggregate([
@@ -613,190 +1604,183 @@ class ProductService {
             $match: match
           },
           {
-            $lookup: {
-              from: 'users',
-              localField: 'userId',
-              foreignField: '_id',
-              as: 'author'
-            }
-          },
-          {
-            $unwind: {
-              path: '$author'
+            $sort: {
+              ...sort,
+              _id: -1
             }
           },
           {
-            $lookup: {
-              from: 'productCategories',
-              localField: 'productCategoryId',
-              foreignField: '_id',
-              as: 'category'
-            }
+            $skip: skip
           },
           {
-            $unwind: {
-              path: '$category'
-            }
+            $limit: limit
           },
+          ...this.getProductListStages()
+        ])
+        .toArray(),
+      databaseService.products.countDocuments(match)
+    ])
+    return {
+      products: userId ? await this.markFavorited({ products, userId }) : products,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  // Bổ sung các trường được tính sẵn (giá sau giảm, lượt bán, điểm đánh giá) cho các sản phẩm cũ
+  async migrateProductMetrics() {
+    const products = await databaseService.products.find({ priceAfterDiscount: { $exists: false } }).toArray()
+    if (products.length === 0) return
+    const productIds = products.map((product) => product._id)
+    const [soldCounts, ratings] = await Promise.all([
+      databaseService.orders
+        .aggregate<{ _id: ObjectId; soldCount: number }>([
           {
-            $lookup: {
-              from: 'brands',
-              localField: 'brandId',
-              foreignField: '_id',
-              as: 'brand'
+            $match: {
+              status: {
+                $ne: OrderStatus.Cancelled
+              }
             }
           },
           {
             $unwind: {
-              path: '$brand'
-            }
-          },
-          {
-            $lookup: {
-              from: 'files',
-              localField: 'thumbnail',
-              foreignField: '_id',
-              as: 'thumbnail'
+              path: '$items'
             }
           },
           {
-            $unwind: {
-              path: '$thumbnail'
+            $match: {
+              'items.productId': {
+                $in: productIds
+              }
             }
           },
           {
-            $lookup: {
-              from: 'files',
-              localField: 'photos',
-              foreignField: '_id',
-              as: 'photos'
+            $group: {
+              _id: '$items.productId',
+              soldCount: {
+                $sum: '$items.quantity'
+              }
             }
-          },
+          }
+        ])
+        .toArray(),
+      databaseService.reviews
+        .aggregate<{ _id: ObjectId; starPoint: number; reviewCount: number }>([
           {
-            $addFields: {
-              thumbnail: {
-                $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$thumbnail.name']
-              },
-              photos: {
-                $map: {
-                  input: '$photos',
-                  as: 'photo',
-                  in: {
-                    $concat: [ENV_CONFIG.HOST, '/', ENV_CONFIG.STATIC_IMAGES_PATH, '/', '$$photo.name']
-                  }
-                }
-              },
-              priceAfterDiscount: {
-                $switch: {
-                  branches: [
-                    {
-                      case: {
-                        $eq: ['$discountType', ProductDiscountType.Money]
-                      },
-                      then: {
-                        $subtract: ['$price', '$discountValue']
-                      }
-                    },
-                    {
-                      case: {
-                        $eq: ['$discountType', ProductDiscountType.Percent]
-                      },
-                      then: {
-                        $subtract: [
-                          '$price',
-                          {
-                            $multiply: [
-                              '$price',
-                              {
-                                $divide: ['$discountValue', 100]
-                              }
-                            ]
-                          }
-                        ]
-                      }
-                    }
-                  ],
-                  default: 'Did not match'
-                }
+            $match: {
+              productId: {
+                $in: productIds
               }
             }
           },
           {
             $group: {
-              _id: '$_id',
-              author: {
-                $first: '$author'
+              _id: '$productId',
+              starPoint: {
+                $avg: '$starPoint'
               },
-              category: {
-                $first: '$category'
-              },
-              brand: {
-                $first: '$brand'
-              },
-              thumbnail: {
-                $first: '$thumbnail'
-              },
-              name: {
-                $first: '$name'
-              },
-              description: {
-                $first: '$description'
-              },
-              photos: {
-                $first: '$photos'
-              },
-              status: {
-                $first: '$status'
-              },
-              originalPrice: {
-                $first: '$price'
-              },
-              priceAfterDiscount: {
-                $first: '$priceAfterDiscount'
-              },
-              availableCount: {
-                $first: '$availableCount'
-              },
-              createdAt: {
-                $first: '$createdAt'
-              },
-              updatedAt: {
-                $first: '$updatedAt'
+              reviewCount: {
+                $sum: 1
               }
             }
-          },
-          {
-            $project: {
-              'author.password': 0,
-              'author.phoneNumber': 0,
-              'author.avatar': 0,
-              'author.verifyEmailToken': 0,
-              'author.forgotPasswordToken': 0,
-              'author.addresses': 0,
-              'author.status': 0,
-              'author.role': 0,
-              'author.verify': 0,
-              'category.userId': 0,
-              'brand.userId': 0
-            }
-          },
-          {
-            $skip: skip
-          },
-          {
-            $limit: limit
           }
         ])
-        .toArray(),
-      databaseService.products.countDocuments(match)
+        .toArray()
     ])
-    return {
-      products,
-      page,
-      limit,
-      totalRows,
-      totalPages: Math.ceil(totalRows / limit)
-    }
+    await databaseService.products.bulkWrite(
+      products.map((product) => {
+        const soldCount = soldCounts.find((item) => item._id.equals(product._id))
+        const rating = ratings.find((item) => item._id.equals(product._id))
+        return {
+          updateOne: {
+            filter: {
+              _id: product._id
+            },
+            update: {
+              $set: {
+                priceAfterDiscount: getPriceAfterDiscount(product),
+                soldCount: soldCount ? soldCount.soldCount : 0,
+                starPoint: rating ? Math.round(rating.starPoint * 10) / 10 : 0,
+                reviewCount: rating ? rating.reviewCount : 0
+              }
+            }
+          }
+        }
+      })
+    )
+  }
+
+  // Bổ sung danh mục cha, slug và thứ tự cho các danh mục được tạo trước khi có cây danh mục
+  async migrateCategories() {
+    const categories = await databaseService.productCategories.find({ slug: { $exists: false } }).toArray()
+    if (categories.length === 0) return
+    const existingCategories = await databaseService.productCategories
+      .find({ slug: { $exists: true } }, { projection: { slug: 1 } })
+      .toArray()
+    const slugs = new Set(existingCategories.map(({ slug }) => slug))
+    await databaseService.productCategories.bulkWrite(
+      categories.map((category) => {
+        let slug = slugify(category.name) || category._id.toString()
+        if (slugs.has(slug)) {
+          slug = `${slug}-${category._id.toString()}`
+        }
+        slugs.add(slug)
+        return {
+          updateOne: {
+            filter: {
+              _id: category._id
+            },
+            update: {
+              $set: {
+                parentId: category.parentId || null,
+                slug,
+                order: category.order || 0
+              }
+            }
+          }
+        }
+      })
+    )
+  }
+
+  async syncRating(productId: ObjectId) {
+    const [rating] = await databaseService.reviews
+      .aggregate<{ starPoint: number; reviewCount: number }>([
+        {
+          $match: {
+            productId
+          }
+        },
+        {
+          $group: {
+            _id: '$productId',
+            starPoint: {
+              $avg: '$starPoint'
+            },
+            reviewCount: {
+              $sum: 1
+            }
+          }
+        }
+      ])
+      .toArray()
+    await databaseService.products.updateOne(
+      {
+        _id: productId
+      },
+      {
+        $set: {
+          starPoint: rating ? Math.round(rating.starPoint * 10) / 10 : 0,
+          reviewCount: rating ? rating.reviewCount : 0
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    return true
   }
 }
 
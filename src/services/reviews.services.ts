@@ -6,6 +6,7 @@ import { CreateReviewReqBody, UpdateReviewReqBody } from '~/models/requests/Revi
 import Review from '~/models/schemas/Review.schema'
 import ReviewReply from '~/models/schemas/ReviewReply.schema'
 import databaseService from '~/services/database.services'
+import productService from '~/services/product.services'
 import { paginationConfig } from '~/utils/utils'
 
 class ReviewService {
@@ -18,7 +19,10 @@ class ReviewService {
         photos: dto.photos?.map((item) => new ObjectId(item))
       })
     )
-    const insertedReview = await databaseService.reviews.findOne({ _id: insertedId })
+    const [insertedReview] = await Promise.all([
+      databaseService.reviews.findOne({ _id: insertedId }),
+      productService.syncRating(new ObjectId(productId))
+    ])
     return {
       review: insertedReview
     }
@@ -42,13 +46,19 @@ class ReviewService {
         returnDocument: 'after'
       }
     )
+    if (updatedReview) {
+      await productService.syncRating(updatedReview.productId)
+    }
     return {
       review: updatedReview
     }
   }
 
   async delete(reviewId: string) {
-    await databaseService.reviews.deleteOne({ _id: new ObjectId(reviewId) })
+    const deletedReview = await databaseService.reviews.findOneAndDelete({ _id: new ObjectId(reviewId) })
+    if (deletedReview) {
+      await productService.syncRating(deletedReview.productId)
+    }
     return true
   }
 
@@ -112,6 +122,63 @@ class ReviewService {
     return true
   }
 
+  async getUserReviews({ userId, query }: { userId: string; query: PaginationReqQuery }) {
+    const { page, limit, skip } = paginationConfig(query)
+    const match = { userId: new ObjectId(userId) }
+    const [reviews, totalRows] = await Promise.all([
+      databaseService.reviews
+        .aggregate([
+          {
+            $match: match
+          },
+          {
+            $sort: {
+              createdAt: -1
+            }
+          },
+          {
+            $skip: skip
+          },
+          {
+            $limit: limit
+          },
+          {
+            $lookup: {
+              from: 'products',
+              localField: 'productId',
+              foreignField: '_id',
+              as: 'product'
+            }
+          },
+          {
+            $unwind: {
+              path: '$product',
+              preserveNullAndEmptyArrays: true
+            }
+          },
+          {
+            $project: {
+              starPoint: 1,
+              content: 1,
+              createdAt: 1,
+              updatedAt: 1,
+              'product._id': 1,
+              'product.name': 1
+            }
+          }
+        ])
+        .toArray(),
+      databaseService.reviews.countDocuments(match)
+    ])
+    return {
+      reviews,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
   async getProductReviews({ productId, query }: { productId: string; query: PaginationReqQuery }) {
     const { page, limit, skip } = paginationConfig(query)
     const match = { productId: new ObjectId(productId) }
@@ -126,6 +193,15 @@ class ReviewService {
               from: 'users',
               localField: 'userId',
               foreignField: '_id',
+              pipeline: [
+                {
+                  $project: {
+                    email: 1,
+                    fullName: 1,
+                    avatar: 1
+                  }
+                }
+              ],
               as: 'author'
             }
           },
@@ -169,6 +245,15 @@ class ReviewService {
               from: 'users',
               localField: 'replies.userId',
               foreignField: '_id',
+              pipeline: [
+                {
+                  $project: {
+                    email: 1,
+                    fullName: 1,
+                    avatar: 1
+                  }
+                }
+              ],
               as: 'replyAuthors'
             }
           },
@@ -293,26 +378,6 @@ class ReviewService {
           },
           {
             $project: {
-              'author.password': 0,
-              'author.phoneNumber': 0,
-              'author.verifyEmailToken': 0,
-              'author.forgotPasswordToken': 0,
-              'author.addresses': 0,
-              'author.status': 0,
-              'author.role': 0,
-              'author.verify': 0,
-              'author.createdAt': 0,
-              'author.updatedAt': 0,
-              'replies.author.password': 0,
-              'replies.author.phoneNumber': 0,
-              'replies.author.verifyEmailToken': 0,
-              'replies.author.forgotPasswordToken': 0,
-              'replies.author.addresses': 0,
-              'replies.author.status': 0,
-              'replies.author.role': 0,
-              'replies.author.verify': 0,
-              'replies.author.createdAt': 0,
-              'replies.author.updatedAt': 0,
               'replies.userId': 0
             }
           },
@@ -0,0 +1,141 @@
+import { ObjectId } from 'mongodb'
+
+import { Permission, UserRole } from '~/constants/enum'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { CreateRoleReqBody } from '~/models/requests/Role.requests'
+import Role from '~/models/schemas/Role.schema'
+import databaseService from '~/services/database.services'
+import userService from '~/services/users.services'
+import { paginationConfig } from '~/utils/utils'
+
+const allPermissions = Object.values(Permission)
+
+class RoleService {
+  async create(dto: CreateRoleReqBody) {
+    const { insertedId } = await databaseService.roles.insertOne(new Role(dto))
+    const insertedRole = await databaseService.roles.findOne({ _id: insertedId })
+    return {
+      role: insertedRole
+    }
+  }
+
+  async update({ dto, roleId }: { dto: CreateRoleReqBody; roleId: string }) {
+    const updatedRole = await databaseService.roles.findOneAndUpdate(
+      {
+        _id: new ObjectId(roleId)
+      },
+      {
+        $set: {
+          ...dto,
+          description: dto.description || ''
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        returnDocument: 'after'
+      }
+    )
+    return {
+      role: updatedRole
+    }
+  }
+
+  // Xoá vai trò và gỡ vai trò đó khỏi tất cả người dùng đang được gán
+  async delete(roleId: string) {
+    const _id = new ObjectId(roleId)
+    const session = databaseService.startSession()
+    try {
+      await session.withTransaction(async () => {
+        await databaseService.roles.deleteOne({ _id }, { session })
+        await databaseService.users.updateMany(
+          {
+            roleIds: _id
+          },
+          {
+            $pull: {
+              roleIds: _id
+            },
+            $currentDate: {
+              updatedAt: true
+            }
+          },
+          { session }
+        )
+      })
+    } finally {
+      await session.endSession()
+    }
+    return true
+  }
+
+  async getAll(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const [roles, totalRows] = await Promise.all([
+      databaseService.roles.find({}).sort({ createdAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.roles.countDocuments({})
+    ])
+    return {
+      roles,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  async getOne(roleId: string) {
+    const role = await databaseService.roles.findOne({ _id: new ObjectId(roleId) })
+    return {
+      role
+    }
+  }
+
+  getAllPermissions() {
+    return {
+      permissions: allPermissions
+    }
+  }
+
+  async assignToUser({ userId, roleIds }: { userId: string; roleIds: string[] }) {
+    await databaseService.users.updateOne(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          roleIds: roleIds.map((roleId) => new ObjectId(roleId))
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    const user = await userService.aggregateUserDetail({ _id: new ObjectId(userId) })
+    return {
+      user
+    }
+  }
+
+  // Quản trị viên (UserRole.Admin) có toàn quyền, người dùng khác có quyền là hợp của các vai trò được gán
+  async getUserPermissions({ userId, role }: { userId: string; role: UserRole }) {
+    if (role === UserRole.Admin) {
+      return allPermissions
+    }
+    const user = await databaseService.users.findOne({ _id: new ObjectId(userId) }, { projection: { roleIds: 1 } })
+    if (!user || !user.roleIds || user.roleIds.length === 0) {
+      return []
+    }
+    const roles = await databaseService.roles.find({ _id: { $in: user.roleIds } }).toArray()
+    return [...new Set(roles.flatMap((item) => item.permissions))]
+  }
+
+  async hasPermissions({ userId, role, permissions }: { userId: string; role: UserRole; permissions: Permission[] }) {
+    const userPermissions = await this.getUserPermissions({ userId, role })
+    return permissions.every((permission) => userPermissions.includes(permission))
+  }
+}
+
+const roleService = new RoleService()
+export default roleService
@@ -0,0 +1,35 @@
+import Setting from '~/models/schemas/Setting.schema'
+import databaseService from '~/services/database.services'
+
+class SettingService {
+  async get() {
+    const setting = await databaseService.settings.findOne({})
+    return setting || new Setting({})
+  }
+
+  async updateTwoFactorPolicy(requireAdminTwoFactor: boolean) {
+    const date = new Date()
+    const setting = await databaseService.settings.findOneAndUpdate(
+      {},
+      {
+        $set: {
+          requireAdminTwoFactor,
+          updatedAt: date
+        },
+        $setOnInsert: {
+          createdAt: date
+        }
+      },
+      {
+        upsert: true,
+        returnDocument: 'after'
+      }
+    )
+    return {
+      setting
+    }
+  }
+}
+
+const settingService = new SettingService()
+export default settingService
@@ -0,0 +1,33 @@
+import { TRASH_PURGE_INTERVAL, TRASH_RETENTION } from '~/constants/trash'
+import orderService from '~/services/orders.services'
+import productService from '~/services/product.services'
+
+class TrashService {
+  private purgeInterval: NodeJS.Timeout | null = null
+
+  // Xoá vĩnh viễn các bản ghi đã nằm trong thùng rác quá TRASH_RETENTION
+  async purge() {
+    const before = new Date(Date.now() - TRASH_RETENTION)
+    try {
+      const [orders, products] = await Promise.all([
+        orderService.purgeDeleted(before),
+        productService.purgeDeleted(before)
+      ])
+      return {
+        ...orders,
+        ...products
+      }
+    } catch (error) {
+      console.log(error)
+    }
+  }
+
+  startPurgeSchedule() {
+    if (this.purgeInterval) return
+    this.purge()
+    this.purgeInterval = setInterval(() => this.purge(), TRASH_PURGE_INTERVAL)
+  }
+}
+
+const trashService = new TrashService()
+export default trashService
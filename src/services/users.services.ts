@@ -1,38 +1,57 @@
+import escapeRegExp from 'lodash/escapeRegExp'
 import isUndefined from 'lodash/isUndefined'
 import omit from 'lodash/omit'
 import omitBy from 'lodash/omitBy'
-import { ObjectId, WithId } from 'mongodb'
+import { Filter, ObjectId, WithId } from 'mongodb'
 
+import { ACCOUNT_LOCK_DURATION, MAX_FAILED_LOGIN_ATTEMPTS } from '~/constants/auth'
 import { ENV_CONFIG } from '~/constants/config'
-import { TokenType, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
-import { PaginationReqQuery } from '~/models/requests/Common.requests'
-import { RegisterReqBody, UpdateMeReqBody } from '~/models/requests/User.requests'
+import { HttpStatusCode, SocialProvider, TokenType, UserRole, UserStatus, UserVerifyStatus } from '~/constants/enum'
+import { USER_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { ClientDevice, GetCustomersReqQuery, RegisterReqBody, UpdateMeReqBody } from '~/models/requests/User.requests'
 import RefreshToken from '~/models/schemas/RefreshToken.schema'
-import User, { LoggedUser } from '~/models/schemas/User.schema'
+import User, { LinkedIdentity, LoggedUser } from '~/models/schemas/User.schema'
+import addressService from '~/services/addresses.services'
 import databaseService from '~/services/database.services'
-import { hashPassword } from '~/utils/crypto'
-import { sendForgotPasswordEmail, sendVerifyEmail } from '~/utils/email'
+import jobService from '~/services/jobs.services'
+import orderService from '~/services/orders.services'
+import reviewService from '~/services/reviews.services'
+import settingService from '~/services/settings.services'
+import { MemoryCache } from '~/utils/cache'
+import { generateNonce, hashPassword, hashToken } from '~/utils/crypto'
 import { signToken, verifyToken } from '~/utils/jwt'
+import { OAuthProfile, oauthProviders } from '~/utils/oauth'
+import { generateRecoveryCodes, generateTotpSecret, getTotpProvisioningUri, verifyTotp } from '~/utils/totp'
 import { paginationConfig } from '~/utils/utils'
 
 type SignToken = {
   userId: string
+  sessionId: string
   verify: UserVerifyStatus
   role: UserRole
   status: UserStatus
+  tokenVersion: number
   iat?: number
   exp?: number
 }
 
+// Mỗi tiến trình lưu tạm phiên bản token của người dùng trong 30 giây để không phải truy vấn database ở mọi request
+const tokenVersionCache = new MemoryCache<number | null>({ ttl: 30 * 1000, maxSize: 10000 })
+// Phiên đăng nhập còn tồn tại hay không, phiên bị thu hồi thì access token của phiên đó cũng hết hiệu lực
+const sessionCache = new MemoryCache<boolean>({ ttl: 30 * 1000, maxSize: 10000 })
+
 class UserService {
-  private signAccessToken({ userId, verify, status, role }: SignToken) {
+  private signAccessToken({ userId, sessionId, verify, status, role, tokenVersion }: SignToken) {
     return signToken({
       payload: {
         userId,
+        sessionId,
         tokenType: TokenType.Access,
         verify,
         status,
-        role
+        role,
+        tokenVersion
       },
       privateKey: ENV_CONFIG.JWT_ACCESS_TOKEN_SECRET,
       options: {
@@ -41,31 +60,40 @@ class UserService {
     })
   }
 
-  private signRefreshToken({ userId, verify, status, role, exp }: SignToken) {
+  // jwtid giúp mỗi refresh token là duy nhất kể cả khi được ký lại trong cùng một giây với cùng thời điểm hết hạn
+  private signRefreshToken({ userId, sessionId, verify, status, role, tokenVersion, exp }: SignToken) {
     if (exp) {
       return signToken({
         payload: {
           userId,
+          sessionId,
           tokenType: TokenType.Refresh,
           verify,
           status,
           role,
+          tokenVersion,
           exp
         },
-        privateKey: ENV_CONFIG.JWT_REFRESH_TOKEN_SECRET
+        privateKey: ENV_CONFIG.JWT_REFRESH_TOKEN_SECRET,
+        options: {
+          jwtid: new ObjectId().toString()
+        }
       })
     }
     return signToken({
       payload: {
         userId,
+        sessionId,
         tokenType: TokenType.Refresh,
         status,
         verify,
-        role
+        role,
+        tokenVersion
       },
       privateKey: ENV_CONFIG.JWT_REFRESH_TOKEN_SECRET,
       options: {
-        expiresIn: ENV_CONFIG.JWT_REFRESH_TOKEN_EXPIRED_IN
+        expiresIn: ENV_CONFIG.JWT_REFRESH_TOKEN_EXPIRED_IN,
+        jwtid: new ObjectId().toString()
       }
     })
   }
@@ -96,13 +124,89 @@ class UserService {
     })
   }
 
-  private signAccessAndRefreshToken({ userId, verify, role, status, exp }: SignToken) {
+  private signTwoFactorToken(userId: string) {
+    return signToken({
+      payload: {
+        userId,
+        tokenType: TokenType.TwoFactor
+      },
+      privateKey: ENV_CONFIG.JWT_TWO_FACTOR_TOKEN_SECRET,
+      options: {
+        expiresIn: ENV_CONFIG.JWT_TWO_FACTOR_TOKEN_EXPIRED_IN
+      }
+    })
+  }
+
+  private signOAuthStateToken({ provider, nonce }: { provider: SocialProvider; nonce: string }) {
+    return signToken({
+      payload: {
+        provider,
+        nonceHash: hashToken(nonce),
+        tokenType: TokenType.OAuthState
+      },
+      privateKey: ENV_CONFIG.JWT_OAUTH_STATE_TOKEN_SECRET,
+      options: {
+        expiresIn: ENV_CONFIG.JWT_OAUTH_STATE_TOKEN_EXPIRED_IN
+      }
+    })
+  }
+
+  private signAccessAndRefreshToken({ userId, sessionId, verify, role, status, tokenVersion, exp }: SignToken) {
     return Promise.all([
-      this.signAccessToken({ userId, verify, role, status }),
-      this.signRefreshToken({ userId, verify, role, status, exp })
+      this.signAccessToken({ userId, sessionId, verify, role, status, tokenVersion }),
+      this.signRefreshToken({ userId, sessionId, verify, role, status, tokenVersion, exp })
     ])
   }
 
+  // Ký cặp token mới và lưu refresh token vào phiên đăng nhập, không truyền sessionId thì tạo phiên mới
+  private async signSessionTokens({
+    user,
+    device,
+    sessionId = new ObjectId(),
+    exp
+  }: {
+    user: Pick<WithId<User>, '_id' | 'verify' | 'role' | 'status'>
+    device: ClientDevice
+    sessionId?: ObjectId
+    exp?: number
+  }) {
+    const { _id, verify, role, status } = user
+    // Luôn đọc phiên bản token từ database thay vì bộ nhớ đệm để token mới không bị ký với phiên bản cũ
+    const currentUser = await databaseService.users.findOne({ _id }, { projection: { tokenVersion: 1 } })
+    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
+      userId: _id.toString(),
+      sessionId: sessionId.toString(),
+      verify,
+      role,
+      status,
+      tokenVersion: currentUser?.tokenVersion || 0,
+      exp
+    })
+    const decodedRefreshToken = await this.decodeRefreshToken(refreshToken)
+    await databaseService.refreshTokens.insertOne(
+      new RefreshToken({
+        userId: _id,
+        sessionId,
+        tokenHash: hashToken(refreshToken),
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        iat: decodedRefreshToken.iat,
+        exp: decodedRefreshToken.exp
+      })
+    )
+    return [accessToken, refreshToken]
+  }
+
+  // Token cũ chưa có sessionId thì chỉ xoá chính nó
+  private async revokeRefreshTokenSession(refreshToken: WithId<RefreshToken>) {
+    if (!refreshToken.sessionId) {
+      await databaseService.refreshTokens.deleteOne({ _id: refreshToken._id })
+      return
+    }
+    await databaseService.refreshTokens.deleteMany({ sessionId: refreshToken.sessionId })
+    sessionCache.delete(refreshToken.sessionId.toString())
+  }
+
   private decodeRefreshToken(refreshToken: string) {
     return verifyToken({
       token: refreshToken,
@@ -110,37 +214,58 @@ class UserService {
     })
   }
 
-  async register(data: RegisterReqBody) {
+  // Thu hồi toàn bộ refresh token, gọi sau khi đã tăng tokenVersion của người dùng
+  private async revokeAllTokens(userId: string) {
+    await databaseService.refreshTokens.deleteMany({ userId: new ObjectId(userId) })
+    tokenVersionCache.delete(userId)
+  }
+
+  // Trả về null khi người dùng không còn tồn tại hoặc đã bị khoá
+  async getTokenVersion(userId: string) {
+    const cachedTokenVersion = tokenVersionCache.get(userId)
+    if (cachedTokenVersion !== undefined) {
+      return cachedTokenVersion
+    }
+    const user = await databaseService.users.findOne(
+      { _id: new ObjectId(userId) },
+      { projection: { tokenVersion: 1, status: 1 } }
+    )
+    const tokenVersion = user && user.status !== UserStatus.Inactive ? user.tokenVersion || 0 : null
+    tokenVersionCache.set(userId, tokenVersion)
+    return tokenVersion
+  }
+
+  async isSessionActive(sessionId: string) {
+    const cachedIsActive = sessionCache.get(sessionId)
+    if (cachedIsActive !== undefined) {
+      return cachedIsActive
+    }
+    const refreshToken = await databaseService.refreshTokens.findOne(
+      { sessionId: new ObjectId(sessionId) },
+      { projection: { _id: 1 } }
+    )
+    const isActive = Boolean(refreshToken)
+    sessionCache.set(sessionId, isActive)
+    return isActive
+  }
+
+  async register({ data, device }: { data: RegisterReqBody; device: ClientDevice }) {
     const { email, password } = data
     const userId = new ObjectId()
     const verifyEmailToken = await this.signVerifyEmailToken(userId.toString())
     await Promise.all([
-      sendVerifyEmail(email, verifyEmailToken),
+      jobService.sendEmail({ template: 'verifyEmail', toAddress: email, data: { verifyEmailToken } }),
       databaseService.users.insertOne(
         new User({
           _id: userId,
           email,
-          password: hashPassword(password),
+          password: await hashPassword(password),
           verifyEmailToken
         })
       )
     ])
     const user = await databaseService.users.findOne({ _id: userId })
-    const { _id, verify, status, role } = user as WithId<User>
-    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
-      userId: _id.toString(),
-      verify,
-      status,
-      role
-    })
-    const { iat, exp } = await this.decodeRefreshToken(refreshToken)
-    await databaseService.refreshTokens.insertOne(
-      new RefreshToken({
-        token: refreshToken,
-        iat,
-        exp
-      })
-    )
+    const [accessToken, refreshToken] = await this.signSessionTokens({ user: user as WithId<User>, device })
     const userConfig = omit(user, [
       'password',
       'avatar',
@@ -150,7 +275,16 @@ class UserService {
       'addresses',
       'status',
       'role',
-      'verify'
+      'roleIds',
+      'verify',
+      'tokenVersion',
+      'passwordChangedAt',
+      'failedLoginAttempts',
+      'lockedUntil',
+      'twoFactorSecret',
+      'twoFactorRecoveryCodes',
+      'twoFactorLastUsedStep',
+      'identities'
     ])
     return {
       accessToken,
@@ -197,7 +331,14 @@ class UserService {
             password: 0,
             verifyEmailToken: 0,
             forgotPasswordToken: 0,
-            addresses: 0
+            addresses: 0,
+            tokenVersion: 0,
+            passwordChangedAt: 0,
+            failedLoginAttempts: 0,
+            lockedUntil: 0,
+            twoFactorSecret: 0,
+            twoFactorRecoveryCodes: 0,
+            twoFactorLastUsedStep: 0
           }
         }
       ])
@@ -205,25 +346,132 @@ class UserService {
     return users[0]
   }
 
-  async login(user: LoggedUser) {
-    const { _id, verify, role, status } = user
-    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
-      userId: _id.toString(),
-      verify,
-      role,
-      status
+  // Người dùng đã bật xác thực hai lớp nhận token thử thách thay cho access token và refresh token
+  async createTwoFactorChallenge(userId: string) {
+    const twoFactorToken = await this.signTwoFactorToken(userId)
+    return {
+      requiresTwoFactor: true,
+      twoFactorToken
+    }
+  }
+
+  async login({ user, device }: { user: LoggedUser; device: ClientDevice }) {
+    const [accessToken, refreshToken] = await this.signSessionTokens({ user, device })
+    return {
+      accessToken,
+      refreshToken
+    }
+  }
+
+  // state được ký để xác nhận callback đến từ luồng đăng nhập do hệ thống khởi tạo,
+  // nonce gắn state với trình duyệt đã khởi tạo nên không thể dùng state của người khác (login CSRF)
+  async getOAuthUrl(provider: SocialProvider) {
+    const nonce = generateNonce()
+    const state = await this.signOAuthStateToken({ provider, nonce })
+    return {
+      url: oauthProviders[provider].getAuthorizationUrl(state),
+      state,
+      nonce
+    }
+  }
+
+  // Tìm người dùng theo tài khoản đã liên kết, sau đó theo email đã được nhà cung cấp xác minh, chưa có thì tạo mới
+  // Tài khoản đã bị khoá thì từ chối trước khi liên kết hay thay đổi bất cứ thông tin nào
+  private async findOrCreateOAuthUser({ provider, profile }: { provider: SocialProvider; profile: OAuthProfile }) {
+    const { providerUserId, email, fullName } = profile
+    const linkedUser = await databaseService.users.findOne({
+      identities: {
+        $elemMatch: { provider, providerUserId }
+      }
     })
-    const { iat, exp } = await this.decodeRefreshToken(refreshToken)
-    await databaseService.refreshTokens.insertOne(
-      new RefreshToken({
-        token: refreshToken,
-        iat,
-        exp
+    const user = linkedUser || (await databaseService.users.findOne({ email }))
+    if (user?.status === UserStatus.Inactive) {
+      throw new ErrorWithStatus({
+        message: USER_MESSAGES.USER_IS_INACTIVE,
+        status: HttpStatusCode.Forbidden
+      })
+    }
+    if (linkedUser) {
+      return linkedUser._id
+    }
+    const identity: LinkedIdentity = { provider, providerUserId, email, linkedAt: new Date() }
+    if (user) {
+      // Tài khoản chưa xác minh email có thể do người khác đăng ký trước bằng email này,
+      // nên bỏ mật khẩu, xác thực hai lớp và thu hồi mọi phiên đăng nhập trước khi liên kết
+      const isUnverified = user.verify !== UserVerifyStatus.Verified
+      await databaseService.users.updateOne(
+        {
+          _id: user._id
+        },
+        {
+          $push: {
+            identities: identity
+          },
+          $set: {
+            verify: UserVerifyStatus.Verified,
+            verifyEmailToken: '',
+            ...(isUnverified && {
+              password: '',
+              twoFactorEnabled: false,
+              twoFactorSecret: '',
+              twoFactorRecoveryCodes: [],
+              twoFactorLastUsedStep: 0
+            })
+          },
+          ...(isUnverified && {
+            $inc: {
+              tokenVersion: 1
+            }
+          }),
+          $currentDate: {
+            updatedAt: true
+          }
+        }
+      )
+      if (isUnverified) {
+        await this.revokeAllTokens(user._id.toString())
+      }
+      return user._id
+    }
+    // Tài khoản tạo qua OAuth không có mật khẩu, người dùng có thể đặt mật khẩu bằng chức năng quên mật khẩu
+    const { insertedId } = await databaseService.users.insertOne(
+      new User({
+        email,
+        password: '',
+        fullName,
+        verify: UserVerifyStatus.Verified,
+        identities: [identity]
       })
     )
+    return insertedId
+  }
+
+  async loginWithOAuth({ provider, code, device }: { provider: SocialProvider; code: string; device: ClientDevice }) {
+    let profile: OAuthProfile
+    try {
+      profile = await oauthProviders[provider].getProfile(code)
+    } catch (error) {
+      throw new ErrorWithStatus({
+        message: USER_MESSAGES.OAUTH_LOGIN_FAILED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (!profile.email || !profile.emailVerified) {
+      throw new ErrorWithStatus({
+        message: USER_MESSAGES.OAUTH_EMAIL_IS_NOT_VERIFIED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    const userId = await this.findOrCreateOAuthUser({ provider, profile })
+    const user = (await this.aggregateUserDetail({ _id: userId })) as LoggedUser
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(userId.toString())
+    }
+    const [accessToken, refreshToken] = await this.signSessionTokens({ user, device })
     return {
       accessToken,
-      refreshToken
+      refreshToken,
+      user
     }
   }
 
@@ -233,7 +481,11 @@ class UserService {
       databaseService.users.findOne({ _id: new ObjectId(userId) })
     ])
     await Promise.all([
-      sendVerifyEmail((user as WithId<User>).email, verifyEmailToken),
+      jobService.sendEmail({
+        template: 'verifyEmail',
+        toAddress: (user as WithId<User>).email,
+        data: { verifyEmailToken }
+      }),
       databaseService.users.updateOne(
         {
           _id: new ObjectId(userId)
@@ -251,7 +503,7 @@ class UserService {
     return true
   }
 
-  async verifyEmail(userId: string) {
+  async verifyEmail({ userId, device }: { userId: string; device: ClientDevice }) {
     await databaseService.users.updateOne(
       {
         _id: new ObjectId(userId)
@@ -267,13 +519,7 @@ class UserService {
       }
     )
     const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
-    const { _id, role, status, verify } = user as WithId<User>
-    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
-      userId: _id.toString(),
-      role,
-      status,
-      verify
-    })
+    const [accessToken, refreshToken] = await this.signSessionTokens({ user: user as WithId<User>, device })
     return {
       accessToken,
       refreshToken,
@@ -281,48 +527,113 @@ class UserService {
     }
   }
 
+  // Đăng xuất kết thúc toàn bộ phiên đăng nhập chứa refresh token
   async logout(refreshToken: string) {
-    await databaseService.refreshTokens.deleteOne({ token: refreshToken })
+    const refreshTokenDocument = await databaseService.refreshTokens.findOne({ tokenHash: hashToken(refreshToken) })
+    if (refreshTokenDocument) {
+      await this.revokeRefreshTokenSession(refreshTokenDocument)
+    }
     return true
   }
 
+  // Lấy vai trò và trạng thái hiện tại của người dùng để token mới phản ánh các thay đổi từ quản trị viên
+  // Refresh token chỉ dùng được một lần, dùng lại token đã xoay vòng sẽ thu hồi toàn bộ phiên
   async refreshToken({
     refreshToken,
     userId,
-    verify,
-    status,
-    role,
-    refreshTokenExp
+    refreshTokenExp,
+    device
   }: {
     refreshToken: string
     userId: string
-    verify: UserVerifyStatus
-    status: UserStatus
-    role: UserRole
     refreshTokenExp: number
+    device: ClientDevice
   }) {
-    const [[newAccessToken, newRefreshToken]] = await Promise.all([
-      this.signAccessAndRefreshToken({ userId, verify, status, role, exp: refreshTokenExp }),
-      databaseService.refreshTokens.deleteOne({ token: refreshToken })
-    ])
-    const { iat, exp } = await this.decodeRefreshToken(newRefreshToken)
-    await databaseService.refreshTokens.insertOne(
-      new RefreshToken({
-        iat,
-        exp,
-        token: newRefreshToken
-      })
+    const rotatedRefreshToken = await databaseService.refreshTokens.findOneAndUpdate(
+      {
+        tokenHash: hashToken(refreshToken),
+        rotatedAt: null
+      },
+      {
+        $set: {
+          rotatedAt: new Date()
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
     )
+    if (!rotatedRefreshToken) {
+      const reusedRefreshToken = await databaseService.refreshTokens.findOne({ tokenHash: hashToken(refreshToken) })
+      if (reusedRefreshToken) {
+        await this.revokeRefreshTokenSession(reusedRefreshToken)
+      }
+      throw new ErrorWithStatus({
+        message: USER_MESSAGES.REFRESH_TOKEN_IS_REUSED,
+        status: HttpStatusCode.Unauthorized
+      })
+    }
+    const user = await databaseService.users.findOne({ _id: new ObjectId(userId) })
+    if (!user || user.status === UserStatus.Inactive) {
+      await this.revokeRefreshTokenSession(rotatedRefreshToken)
+      throw new ErrorWithStatus({
+        message: USER_MESSAGES.USER_IS_INACTIVE,
+        status: HttpStatusCode.Forbidden
+      })
+    }
+    const [newAccessToken, newRefreshToken] = await this.signSessionTokens({
+      user,
+      device,
+      sessionId: rotatedRefreshToken.sessionId,
+      exp: refreshTokenExp
+    })
     return {
       accessToken: newAccessToken,
       refreshToken: newRefreshToken
     }
   }
 
+  async getSessions({ userId, sessionId }: { userId: string; sessionId: string }) {
+    const refreshTokens = await databaseService.refreshTokens
+      .find({
+        userId: new ObjectId(userId),
+        sessionId: {
+          $exists: true
+        },
+        rotatedAt: null,
+        exp: {
+          $gt: new Date()
+        }
+      })
+      .sort({ createdAt: -1 })
+      .toArray()
+    const sessions = refreshTokens.map((refreshToken) => ({
+      _id: refreshToken.sessionId,
+      userAgent: refreshToken.userAgent,
+      ipAddress: refreshToken.ipAddress,
+      createdAt: refreshToken.sessionId.getTimestamp(),
+      lastActiveAt: refreshToken.createdAt,
+      expiresAt: refreshToken.exp,
+      isCurrent: refreshToken.sessionId.toString() === sessionId
+    }))
+    return {
+      sessions
+    }
+  }
+
+  async revokeSession({ userId, sessionId }: { userId: string; sessionId: string }) {
+    await databaseService.refreshTokens.deleteMany({
+      userId: new ObjectId(userId),
+      sessionId: new ObjectId(sessionId)
+    })
+    sessionCache.delete(sessionId)
+    return true
+  }
+
   async forgotPassword({ userId, email }: { userId: string; email: string }) {
     const forgotPasswordToken = await this.signForgotPasswordToken(userId)
     await Promise.all([
-      sendForgotPasswordEmail(email, forgotPasswordToken),
+      jobService.sendEmail({ template: 'forgotPassword', toAddress: email, data: { forgotPasswordToken } }),
       databaseService.users.updateOne(
         { _id: new ObjectId(userId) },
         {
@@ -338,28 +649,36 @@ class UserService {
     return
   }
 
-  async resetPassword({ password, userId }: { password: string; userId: string }) {
+  async resetPassword({ password, userId, device }: { password: string; userId: string; device: ClientDevice }) {
     const user = await databaseService.users.findOneAndUpdate(
       {
         _id: new ObjectId(userId)
       },
       {
         $set: {
-          password: hashPassword(password),
-          forgotPasswordToken: ''
+          password: await hashPassword(password),
+          forgotPasswordToken: '',
+          failedLoginAttempts: 0,
+          lockedUntil: null
+        },
+        $inc: {
+          tokenVersion: 1
         },
         $currentDate: {
-          createdAt: true
+          createdAt: true,
+          passwordChangedAt: true
         }
+      },
+      {
+        returnDocument: 'after'
       }
     )
-    const { _id, verify, status, role } = user as WithId<User>
-    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
-      userId: _id.toString(),
-      verify,
-      role,
-      status
-    })
+    await this.revokeAllTokens(userId)
+    // Link đặt lại mật khẩu chỉ chứng minh quyền truy cập email, vẫn phải qua bước xác thực hai lớp mới được cấp phiên đăng nhập
+    if (user?.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(userId)
+    }
+    const [accessToken, refreshToken] = await this.signSessionTokens({ user: user as WithId<User>, device })
     const userConfig = omit(user, [
       'password',
       'avatar',
@@ -369,7 +688,16 @@ class UserService {
       'addresses',
       'status',
       'role',
-      'verify'
+      'roleIds',
+      'verify',
+      'tokenVersion',
+      'passwordChangedAt',
+      'failedLoginAttempts',
+      'lockedUntil',
+      'twoFactorSecret',
+      'twoFactorRecoveryCodes',
+      'twoFactorLastUsedStep',
+      'identities'
     ])
     return {
       accessToken,
@@ -378,21 +706,235 @@ class UserService {
     }
   }
 
-  async changePassword({ password, userId }: { password: string; userId: string }) {
+  // Chuyển mật khẩu đang lưu ở định dạng cũ sang định dạng mới sau khi người dùng đăng nhập thành công
+  async rehashPassword({ password, userId }: { password: string; userId: ObjectId }) {
     await databaseService.users.updateOne(
+      {
+        _id: userId
+      },
+      {
+        $set: {
+          password: await hashPassword(password)
+        }
+      }
+    )
+    return true
+  }
+
+  // Khoá tạm thời tài khoản khi nhập sai mật khẩu MAX_FAILED_LOGIN_ATTEMPTS lần liên tiếp
+  async recordFailedLogin(userId: ObjectId) {
+    const user = await databaseService.users.findOneAndUpdate(
+      {
+        _id: userId
+      },
+      {
+        $inc: {
+          failedLoginAttempts: 1
+        }
+      },
+      {
+        returnDocument: 'after',
+        projection: { failedLoginAttempts: 1 }
+      }
+    )
+    if (user && user.failedLoginAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      await databaseService.users.updateOne(
+        {
+          _id: userId
+        },
+        {
+          $set: {
+            failedLoginAttempts: 0,
+            lockedUntil: new Date(Date.now() + ACCOUNT_LOCK_DURATION)
+          }
+        }
+      )
+    }
+    return true
+  }
+
+  async resetFailedLogins(userId: ObjectId) {
+    await databaseService.users.updateOne(
+      {
+        _id: userId
+      },
+      {
+        $set: {
+          failedLoginAttempts: 0,
+          lockedUntil: null
+        }
+      }
+    )
+    return true
+  }
+
+  // Tạo khoá bí mật và mã khôi phục mới, xác thực hai lớp chỉ được bật sau khi người dùng xác minh mã đầu tiên
+  async enrollTwoFactor(userId: string) {
+    const secret = generateTotpSecret()
+    const recoveryCodes = generateRecoveryCodes()
+    const user = await databaseService.users.findOneAndUpdate(
       {
         _id: new ObjectId(userId)
       },
       {
         $set: {
-          password: hashPassword(password)
+          twoFactorSecret: secret,
+          twoFactorRecoveryCodes: recoveryCodes.map((code) => hashToken(code)),
+          twoFactorLastUsedStep: 0
         },
         $currentDate: {
           updatedAt: true
         }
       }
     )
-    return true
+    return {
+      secret,
+      provisioningUri: getTotpProvisioningUri({
+        secret,
+        accountName: (user as WithId<User>).email,
+        issuer: ENV_CONFIG.TOTP_ISSUER
+      }),
+      recoveryCodes
+    }
+  }
+
+  async enableTwoFactor(userId: string) {
+    await databaseService.users.updateOne(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          twoFactorEnabled: true
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
+    return {
+      user
+    }
+  }
+
+  async disableTwoFactor(userId: string) {
+    await databaseService.users.updateOne(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          twoFactorEnabled: false,
+          twoFactorSecret: '',
+          twoFactorRecoveryCodes: [],
+          twoFactorLastUsedStep: 0
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
+    return {
+      user
+    }
+  }
+
+  // Chấp nhận mã TOTP hoặc mã khôi phục, mã TOTP không được dùng lại và mã khôi phục bị xoá sau khi dùng
+  async verifyTwoFactorCode({
+    user,
+    code,
+    allowRecoveryCode = true
+  }: {
+    user: WithId<User>
+    code: string
+    allowRecoveryCode?: boolean
+  }) {
+    const step = verifyTotp({ secret: user.twoFactorSecret, code })
+    if (step !== null) {
+      const { modifiedCount } = await databaseService.users.updateOne(
+        {
+          _id: user._id,
+          twoFactorLastUsedStep: {
+            $lt: step
+          }
+        },
+        {
+          $set: {
+            twoFactorLastUsedStep: step
+          }
+        }
+      )
+      return modifiedCount === 1
+    }
+    if (!allowRecoveryCode) return false
+    const { modifiedCount } = await databaseService.users.updateOne(
+      {
+        _id: user._id,
+        twoFactorRecoveryCodes: hashToken(code.trim().toLowerCase())
+      },
+      {
+        $pull: {
+          twoFactorRecoveryCodes: hashToken(code.trim().toLowerCase())
+        }
+      }
+    )
+    return modifiedCount === 1
+  }
+
+  // Quản trị viên chưa bật xác thực hai lớp khi hệ thống bắt buộc thì không được dùng các chức năng quản trị
+  async isTwoFactorSetupRequired({ userId, role }: { userId: string; role: UserRole }) {
+    if (role !== UserRole.Admin) return false
+    const [setting, user] = await Promise.all([
+      settingService.get(),
+      databaseService.users.findOne({ _id: new ObjectId(userId) }, { projection: { twoFactorEnabled: 1 } })
+    ])
+    return setting.requireAdminTwoFactor && !user?.twoFactorEnabled
+  }
+
+  // Đổi mật khẩu đăng xuất mọi thiết bị, phiên hiện tại được cấp token mới để tiếp tục sử dụng
+  async changePassword({
+    password,
+    userId,
+    sessionId,
+    device
+  }: {
+    password: string
+    userId: string
+    sessionId?: string
+    device: ClientDevice
+  }) {
+    const user = await databaseService.users.findOneAndUpdate(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          password: await hashPassword(password)
+        },
+        $inc: {
+          tokenVersion: 1
+        },
+        $currentDate: {
+          updatedAt: true,
+          passwordChangedAt: true
+        }
+      },
+      {
+        returnDocument: 'after'
+      }
+    )
+    await this.revokeAllTokens(userId)
+    const [accessToken, refreshToken] = await this.signSessionTokens({
+      user: user as WithId<User>,
+      device,
+      sessionId: sessionId ? new ObjectId(sessionId) : undefined
+    })
+    return {
+      accessToken,
+      refreshToken
+    }
   }
 
   async getMe(userId: string) {
@@ -404,7 +946,18 @@ class UserService {
     }
   }
 
-  async updateMe({ dto, userId }: { dto: UpdateMeReqBody; userId: string }) {
+  // Token mới thuộc phiên hiện tại, refresh token cũ của phiên được đánh dấu đã xoay vòng
+  async updateMe({
+    dto,
+    userId,
+    sessionId,
+    device
+  }: {
+    dto: UpdateMeReqBody
+    userId: string
+    sessionId?: string
+    device: ClientDevice
+  }) {
     const dtoConfig = omitBy(
       {
         ...dto,
@@ -424,20 +977,28 @@ class UserService {
       }
     )
     const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
-    const [accessToken, refreshToken] = await this.signAccessAndRefreshToken({
-      userId,
-      role: user.role,
-      status: user.status,
-      verify: user.verify
+    if (sessionId) {
+      await databaseService.refreshTokens.updateMany(
+        {
+          userId: new ObjectId(userId),
+          sessionId: new ObjectId(sessionId),
+          rotatedAt: null
+        },
+        {
+          $set: {
+            rotatedAt: new Date()
+          },
+          $currentDate: {
+            updatedAt: true
+          }
+        }
+      )
+    }
+    const [accessToken, refreshToken] = await this.signSessionTokens({
+      user: user as WithId<User>,
+      device,
+      sessionId: sessionId ? new ObjectId(sessionId) : undefined
     })
-    const { iat, exp } = await this.decodeRefreshToken(refreshToken)
-    await databaseService.refreshTokens.insertOne(
-      new RefreshToken({
-        token: refreshToken,
-        iat,
-        exp
-      })
-    )
     return {
       accessToken,
       refreshToken,
@@ -445,11 +1006,16 @@ class UserService {
     }
   }
 
-  async getAllCustomers(query: PaginationReqQuery) {
+  async getAllCustomers(query: GetCustomersReqQuery) {
     const { page, limit, skip } = paginationConfig(query)
-    const match = {
+    const { keyword } = query
+    const match: Filter<User> = {
       role: UserRole.User
     }
+    if (keyword) {
+      const keywordRegex = new RegExp(escapeRegExp(keyword), 'i')
+      match.$or = [{ email: keywordRegex }, { fullName: keywordRegex }, { phoneNumber: keywordRegex }]
+    }
     const [users, totalRows] = await Promise.all([
       databaseService.users
         .aggregate([
@@ -488,7 +1054,14 @@ class UserService {
               password: 0,
               verifyEmailToken: 0,
               forgotPasswordToken: 0,
-              addresses: 0
+              addresses: 0,
+              tokenVersion: 0,
+              passwordChangedAt: 0,
+              failedLoginAttempts: 0,
+              lockedUntil: 0,
+              twoFactorSecret: 0,
+              twoFactorRecoveryCodes: 0,
+              twoFactorLastUsedStep: 0
             }
           },
           {
@@ -509,6 +1082,113 @@ class UserService {
       totaPages: Math.ceil(totalRows / limit)
     }
   }
+
+  async getCustomer(userId: string) {
+    const query = {}
+    const [
+      user,
+      { orders, ...orderPagination },
+      { addresses, ...addressPagination },
+      { reviews, ...reviewPagination }
+    ] = await Promise.all([
+      this.aggregateUserDetail({ _id: new ObjectId(userId) }),
+      orderService.getMyOrders({ userId, query }),
+      addressService.getAll({ userId, query }),
+      reviewService.getUserReviews({ userId, query })
+    ])
+    return {
+      customer: user,
+      orders: {
+        items: orders,
+        totalRows: orderPagination.totalRows
+      },
+      addresses: {
+        items: addresses,
+        totalRows: addressPagination.totalRows
+      },
+      reviews: {
+        items: reviews,
+        totalRows: reviewPagination.totalRows
+      }
+    }
+  }
+
+  // Khoá tài khoản đồng thời thu hồi toàn bộ token để người dùng không thể duy trì phiên đăng nhập
+  async updateStatus({ userId, status }: { userId: string; status: UserStatus }) {
+    await databaseService.users.updateOne(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          status
+        },
+        $inc: {
+          tokenVersion: 1
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    await this.revokeAllTokens(userId)
+    const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
+    return {
+      user
+    }
+  }
+
+  async updateRole({ userId, role }: { userId: string; role: UserRole }) {
+    await databaseService.users.updateOne(
+      {
+        _id: new ObjectId(userId)
+      },
+      {
+        $set: {
+          role
+        },
+        $inc: {
+          tokenVersion: 1
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      }
+    )
+    await this.revokeAllTokens(userId)
+    const user = await this.aggregateUserDetail({ _id: new ObjectId(userId) })
+    return {
+      user
+    }
+  }
+
+  // Chuyển các refresh token cũ đang lưu token gốc sang lưu mã băm, chỉ chạy một lần khi khởi động
+  async migrateRefreshTokens() {
+    const legacyRefreshTokens = await databaseService.refreshTokens
+      .find<{ _id: ObjectId; token: string }>({ token: { $exists: true } }, { projection: { token: 1 } })
+      .toArray()
+    if (legacyRefreshTokens.length > 0) {
+      await databaseService.refreshTokens.bulkWrite(
+        legacyRefreshTokens.map(({ _id, token }) => ({
+          updateOne: {
+            filter: { _id },
+            update: {
+              $set: {
+                tokenHash: hashToken(token)
+              },
+              $unset: {
+                token: ''
+              }
+            }
+          }
+        }))
+      )
+    }
+    const isLegacyIndexExists = await databaseService.refreshTokens.indexExists('token_1')
+    if (isLegacyIndexExists) {
+      await databaseService.refreshTokens.dropIndex('token_1')
+    }
+  }
 }
 
 const userService = new UserService()
@@ -0,0 +1,227 @@
+import { ClientSession, ObjectId, WithId } from 'mongodb'
+
+import { HttpStatusCode, OrderStatus, VoucherDiscountType, VoucherStatus } from '~/constants/enum'
+import { VOUCHER_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { CreateVoucherReqBody } from '~/models/requests/Voucher.requests'
+import Voucher from '~/models/schemas/Voucher.schema'
+import databaseService from '~/services/database.services'
+import { paginationConfig } from '~/utils/utils'
+
+class VoucherService {
+  async create({ dto, userId }: { dto: CreateVoucherReqBody; userId: string }) {
+    const { insertedId } = await databaseService.vouchers.insertOne(
+      new Voucher({
+        ...dto,
+        userId: new ObjectId(userId),
+        startsAt: new Date(dto.startsAt),
+        expiresAt: new Date(dto.expiresAt)
+      })
+    )
+    const insertedVoucher = await databaseService.vouchers.findOne({ _id: insertedId })
+    return {
+      voucher: insertedVoucher
+    }
+  }
+
+  async update({ dto, voucherId }: { dto: CreateVoucherReqBody; voucherId: string }) {
+    const updatedVoucher = await databaseService.vouchers.findOneAndUpdate(
+      {
+        _id: new ObjectId(voucherId)
+      },
+      {
+        $set: {
+          ...dto,
+          minOrderValue: dto.minOrderValue || 0,
+          maxDiscount: dto.maxDiscount || null,
+          usageLimit: dto.usageLimit || null,
+          usageLimitPerUser: dto.usageLimitPerUser || null,
+          startsAt: new Date(dto.startsAt),
+          expiresAt: new Date(dto.expiresAt)
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      {
+        returnDocument: 'after'
+      }
+    )
+    return {
+      voucher: updatedVoucher
+    }
+  }
+
+  async delete(voucherId: string) {
+    await databaseService.vouchers.deleteOne({ _id: new ObjectId(voucherId) })
+    return true
+  }
+
+  async getAll(query: PaginationReqQuery) {
+    const { page, limit, skip } = paginationConfig(query)
+    const [vouchers, totalRows] = await Promise.all([
+      databaseService.vouchers.find({}).sort({ createdAt: -1 }).skip(skip).limit(limit).toArray(),
+      databaseService.vouchers.countDocuments({})
+    ])
+    return {
+      vouchers,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+
+  async getOne(voucherId: string) {
+    const voucher = await databaseService.vouchers.findOne({ _id: new ObjectId(voucherId) })
+    return {
+      voucher
+    }
+  }
+
+  // Kiểm tra voucher có dùng được cho người dùng tại thời điểm hiện tại không (không tính giá trị đơn hàng)
+  async checkUsable({ voucherId, userId }: { voucherId: string; userId: string }) {
+    const voucher = await databaseService.vouchers.findOne({ _id: new ObjectId(voucherId) })
+    if (!voucher) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_NOT_FOUND,
+        status: HttpStatusCode.NotFound
+      })
+    }
+    const now = new Date()
+    if (voucher.status === VoucherStatus.Inactive) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_IS_INACTIVE,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (voucher.startsAt > now) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_IS_NOT_STARTED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (voucher.expiresAt <= now) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_IS_EXPIRED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    if (voucher.usageLimit !== null && voucher.usedCount >= voucher.usageLimit) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_REACHED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    await this.checkUsageLimitPerUser({ voucher, userId: new ObjectId(userId) })
+    return voucher
+  }
+
+  private async checkUsageLimitPerUser({
+    voucher,
+    userId,
+    session
+  }: {
+    voucher: WithId<Voucher>
+    userId: ObjectId
+    session?: ClientSession
+  }) {
+    if (voucher.usageLimitPerUser === null) return
+    const usedByUser = await databaseService.orders.countDocuments(
+      {
+        userId,
+        voucherId: voucher._id,
+        status: {
+          $ne: OrderStatus.Cancelled
+        }
+      },
+      { session }
+    )
+    if (usedByUser >= voucher.usageLimitPerUser) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_PER_USER_REACHED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+  }
+
+  calculateDiscount({ voucher, totalAmount }: { voucher: WithId<Voucher>; totalAmount: number }) {
+    if (totalAmount < voucher.minOrderValue) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_MIN_ORDER_VALUE_NOT_REACHED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    let discount = voucher.discountValue
+    if (voucher.discountType === VoucherDiscountType.Percent) {
+      discount = Math.floor((totalAmount * voucher.discountValue) / 100)
+    }
+    if (voucher.maxDiscount !== null) {
+      discount = Math.min(discount, voucher.maxDiscount)
+    }
+    return Math.min(discount, totalAmount)
+  }
+
+  // Tăng số lượt dùng, chỉ thành công khi voucher chưa hết lượt và người dùng chưa dùng hết lượt của mình
+  // Mọi lần dùng đều ghi vào cùng voucher nên các lần đặt hàng đồng thời bị xung đột ghi và giao dịch được chạy lại,
+  // khi đó số đơn hàng của người dùng được đếm lại và đã bao gồm đơn vừa tạo
+  async use({ voucherId, userId, session }: { voucherId: ObjectId; userId: ObjectId; session?: ClientSession }) {
+    const updatedVoucher = await databaseService.vouchers.findOneAndUpdate(
+      {
+        _id: voucherId,
+        $or: [
+          {
+            usageLimit: null
+          },
+          {
+            $expr: {
+              $lt: ['$usedCount', '$usageLimit']
+            }
+          }
+        ]
+      },
+      {
+        $inc: {
+          usedCount: 1
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    if (!updatedVoucher) {
+      throw new ErrorWithStatus({
+        message: VOUCHER_MESSAGES.VOUCHER_USAGE_LIMIT_REACHED,
+        status: HttpStatusCode.BadRequest
+      })
+    }
+    await this.checkUsageLimitPerUser({ voucher: updatedVoucher, userId, session })
+    return true
+  }
+
+  async release({ voucherId, session }: { voucherId: ObjectId; session?: ClientSession }) {
+    await databaseService.vouchers.updateOne(
+      {
+        _id: voucherId,
+        usedCount: {
+          $gt: 0
+        }
+      },
+      {
+        $inc: {
+          usedCount: -1
+        },
+        $currentDate: {
+          updatedAt: true
+        }
+      },
+      { session }
+    )
+    return true
+  }
+}
+
+const voucherService = new VoucherService()
+export default voucherService
@@ -0,0 +1,141 @@
+import { ObjectId } from 'mongodb'
+
+import { ProductStatus } from '~/constants/enum'
+import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import databaseService from '~/services/database.services'
+import productService from '~/services/product.services'
+import { paginationConfig } from '~/utils/utils'
+
+class WishlistService {
+  // Thêm sản phẩm đã có trong danh sách yêu thích thì giữ nguyên thời điểm thêm ban đầu
+  async add({ productId, userId }: { productId: string; userId: string }) {
+    await databaseService.wishlists.updateOne(
+      {
+        userId: new ObjectId(userId),
+        productId: new ObjectId(productId)
+      },
+      {
+        $setOnInsert: {
+          createdAt: new Date()
+        }
+      },
+      {
+        upsert: true
+      }
+    )
+    return true
+  }
+
+  async remove({ productId, userId }: { productId: string; userId: string }) {
+    await databaseService.wishlists.deleteOne({
+      userId: new ObjectId(userId),
+      productId: new ObjectId(productId)
+    })
+    return true
+  }
+
+  async getMyWishlist({ userId, query }: { userId: string; query: PaginationReqQuery }) {
+    const { page, limit, skip } = paginationConfig(query)
+    // Sản phẩm đang bị ẩn hoặc nằm trong thùng rác vẫn được giữ trong danh sách nhưng không được hiển thị và không được đếm
+    const matchStages = [
+      {
+        $match: {
+          userId: new ObjectId(userId)
+        }
+      },
+      {
+        $lookup: {
+          from: 'products',
+          localField: 'productId',
+          foreignField: '_id',
+          pipeline: [
+            {
+              $match: {
+                status: ProductStatus.Active,
+                deletedAt: null
+              }
+            },
+            {
+              $project: {
+                _id: 1
+              }
+            }
+          ],
+          as: 'visibleProduct'
+        }
+      },
+      {
+        $match: {
+          'visibleProduct.0': {
+            $exists: true
+          }
+        }
+      }
+    ]
+    const [products, [count]] = await Promise.all([
+      databaseService.wishlists
+        .aggregate([
+          ...matchStages,
+          {
+            $sort: {
+              createdAt: -1,
+              _id: -1
+            }
+          },
+          {
+            $skip: skip
+          },
+          {
+            $limit: limit
+          },
+          {
+            $lookup: {
+              from: 'products',
+              localField: 'productId',
+              foreignField: '_id',
+              pipeline: productService.getProductListStages(),
+              as: 'product'
+            }
+          },
+          {
+            $unwind: {
+              path: '$product'
+            }
+          },
+          {
+            $replaceRoot: {
+              newRoot: {
+                $mergeObjects: [
+                  '$product',
+                  {
+                    isFavorited: true,
+                    favoritedAt: '$createdAt'
+                  }
+                ]
+              }
+            }
+          }
+        ])
+        .toArray(),
+      databaseService.wishlists
+        .aggregate<{ totalRows: number }>([
+          ...matchStages,
+          {
+            $count: 'totalRows'
+          }
+        ])
+        .toArray()
+    ])
+    const totalRows = count ? count.totalRows : 0
+    return {
+      products,
+      page,
+      limit,
+      totalRows,
+      totalPages: Math.ceil(totalRows / limit)
+    }
+  }
+}
+
+const wishlistService = new WishlistService()
+export default wishlistService
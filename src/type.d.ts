@@ -2,6 +2,7 @@ import 'express'
 import { WithId } from 'mongodb'
 
 import { TokenPayload } from '~/models/requests/User.requests'
+import Order from '~/models/schemas/Order.schema'
 import User from '~/models/schemas/User.schema'
 
 declare module 'express' {
@@ -10,6 +11,8 @@ declare module 'express' {
     decodedRefreshToken?: TokenPayload
     decodedVerifyEmailToken?: TokenPayload
     decodedForgotPasswordToken?: TokenPayload
+    decodedTwoFactorToken?: TokenPayload
     user?: LoggedUser
+    order?: WithId<Order>
   }
 }
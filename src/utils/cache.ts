@@ -0,0 +1,41 @@
+type CacheEntry<T> = {
+  value: T
+  expiresAt: number
+}
+
+// Bộ nhớ đệm trong tiến trình, mỗi khoá tự hết hạn sau ttl (ms), vượt quá maxSize thì bỏ khoá được thêm sớm nhất
+export class MemoryCache<T> {
+  private entries = new Map<string, CacheEntry<T>>()
+  private ttl: number
+  private maxSize: number
+
+  constructor({ ttl, maxSize }: { ttl: number; maxSize: number }) {
+    this.ttl = ttl
+    this.maxSize = maxSize
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  set(key: string, value: T) {
+    this.entries.delete(key)
+    if (this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey)
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl })
+  }
+
+  delete(key: string) {
+    this.entries.delete(key)
+  }
+}
@@ -1,10 +1,107 @@
-import { createHash } from 'crypto'
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+
 import { ENV_CONFIG } from '~/constants/config'
 
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>
+
+const PASSWORD_HASH_ALGORITHM = 'scrypt'
+const SCRYPT_PARAMS = {
+  N: 16384,
+  r: 8,
+  p: 1
+}
+const SCRYPT_KEY_LENGTH = 64
+const SCRYPT_SALT_LENGTH = 16
+
 export const sha256 = (content: string) => {
   return createHash('sha256').update(content).digest('hex')
 }
 
-export const hashPassword = (password: string) => {
+// Token (refresh token) đã có độ ngẫu nhiên cao nên chỉ cần băm sha256 để tra cứu, không cần salt
+export const hashToken = (token: string) => {
+  return sha256(token)
+}
+
+// Chuỗi ngẫu nhiên client giữ lại khi bắt đầu đăng nhập OAuth để chứng minh chính nó đã khởi tạo luồng
+export const generateNonce = () => {
+  return randomBytes(32).toString('hex')
+}
+
+// Định dạng cũ: sha256(password + PASSWORD_SECRET), chỉ còn dùng để kiểm tra và chuyển đổi các mật khẩu cũ
+const hashLegacyPassword = (password: string) => {
   return sha256(password + ENV_CONFIG.PASSWORD_SECRET)
 }
+
+const deriveKey = ({
+  password,
+  salt,
+  N,
+  r,
+  p
+}: {
+  password: string
+  salt: Buffer
+  N: number
+  r: number
+  p: number
+}) => {
+  return scryptAsync(password, salt, SCRYPT_KEY_LENGTH, { N, r, p, maxmem: 256 * N * r })
+}
+
+// Định dạng mới: scrypt$N=16384,r=8,p=1$<salt base64>$<hash base64>
+export const hashPassword = async (password: string) => {
+  const { N, r, p } = SCRYPT_PARAMS
+  const salt = randomBytes(SCRYPT_SALT_LENGTH)
+  const key = await deriveKey({ password, salt, N, r, p })
+  return [PASSWORD_HASH_ALGORITHM, `N=${N},r=${r},p=${p}`, salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+const parsePasswordHash = (passwordHash: string) => {
+  const [algorithm, params, salt, key] = passwordHash.split('$')
+  if (algorithm !== PASSWORD_HASH_ALGORITHM || !params || !salt || !key) {
+    return null
+  }
+  const { N, r, p } = Object.fromEntries(
+    params.split(',').map((param) => {
+      const [name, value] = param.split('=')
+      return [name, Number(value)]
+    })
+  )
+  if (![N, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+    return null
+  }
+  return {
+    N,
+    r,
+    p,
+    salt: Buffer.from(salt, 'base64'),
+    key: Buffer.from(key, 'base64')
+  }
+}
+
+// needsRehash = true khi mật khẩu đúng nhưng đang được lưu ở định dạng cũ hoặc với tham số cũ
+export const verifyPassword = async ({ password, passwordHash }: { password: string; passwordHash: string }) => {
+  const parsedHash = parsePasswordHash(passwordHash)
+  if (!parsedHash) {
+    const legacyHash = Buffer.from(hashLegacyPassword(password))
+    const storedHash = Buffer.from(passwordHash)
+    const isValid = legacyHash.length === storedHash.length && timingSafeEqual(legacyHash, storedHash)
+    return {
+      isValid,
+      needsRehash: isValid
+    }
+  }
+  const { N, r, p, salt, key } = parsedHash
+  const derivedKey = await deriveKey({ password, salt, N, r, p })
+  const isValid = derivedKey.length === key.length && timingSafeEqual(derivedKey, key)
+  return {
+    isValid,
+    needsRehash: isValid && (N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p)
+  }
+}
@@ -1,97 +1,138 @@
-import { SendEmailCommand, SESClient } from '@aws-sdk/client-ses'
 import fs from 'fs'
+import escape from 'lodash/escape'
 import path from 'path'
 
 import { ENV_CONFIG } from '~/constants/config'
+import { OrderStatus } from '~/constants/enum'
+import { mailTransport } from '~/utils/mailTransport'
 
-// Create SES service object.
-const sesClient = new SESClient({
-  region: ENV_CONFIG.AWS_REGION,
-  credentials: {
-    secretAccessKey: ENV_CONFIG.AWS_SECRET_ACCESS_KEY,
-    accessKeyId: ENV_CONFIG.AWS_ACCESS_KEY_ID
-  }
-})
+type EmailLayoutVariables = {
+  title: string
+  content: string
+  link: string
+  linkText: string
+}
 
-const createSendEmailCommand = ({
-  fromAddress,
-  toAddresses,
-  ccAddresses = [],
-  body,
-  subject,
-  replyToAddresses = []
-}: {
-  fromAddress: string
-  toAddresses: string | string[]
-  ccAddresses?: string | string[]
-  body: string
+type EmailTemplate<T> = {
   subject: string
-  replyToAddresses?: string | string[]
-}) => {
-  return new SendEmailCommand({
-    Destination: {
-      /* required */
-      CcAddresses: ccAddresses instanceof Array ? ccAddresses : [ccAddresses],
-      ToAddresses: toAddresses instanceof Array ? toAddresses : [toAddresses]
-    },
-    Message: {
-      /* required */
-      Body: {
-        /* required */
-        Html: {
-          Charset: 'UTF-8',
-          Data: body
-        }
-      },
-      Subject: {
-        Charset: 'UTF-8',
-        Data: subject
-      }
-    },
-    Source: fromAddress,
-    ReplyToAddresses: replyToAddresses instanceof Array ? replyToAddresses : [replyToAddresses]
-  })
+  render: (data: T) => EmailLayoutVariables
 }
 
-const sendMail = async (toAddress: string, subject: string, body: string) => {
-  const sendEmailCommand = createSendEmailCommand({
-    fromAddress: ENV_CONFIG.AWS_SES_FROM_ADDRESS,
-    toAddresses: toAddress,
-    body,
-    subject
-  })
-  return sesClient.send(sendEmailCommand)
+const emailLayout = fs.readFileSync(path.resolve('src/templates/email.html'), 'utf8')
+
+// Thay các biến {{name}} trong layout, biến không được khai báo được giữ nguyên để dễ phát hiện lỗi
+const renderLayout = (variables: EmailLayoutVariables) => {
+  return emailLayout.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof EmailLayoutVariables] : match
+  )
 }
 
-const emailTemplate = fs.readFileSync(path.resolve('src/templates/email.html'), 'utf8')
+const defineTemplate = <T>(template: EmailTemplate<T>) => template
 
-export const sendVerifyEmail = async (toAddress: string, verifyEmailToken: string) => {
-  return sendMail(
-    toAddress,
-    'Verify Your Email',
-    emailTemplate
-      .replace('{{title}}', 'Confirm Your Email Address')
-      .replace(
-        '{{content}}',
-        `Tap the button below to confirm your email address. If you didn't create an account with
-        <a href="${ENV_CONFIG.CLIENT_URL}">NAEE</a>, you can safely delete this email.`
-      )
-      .replace('{{link}}', `${ENV_CONFIG.CLIENT_URL}/verify-email?token=${verifyEmailToken}`)
-      .replace('{{linkText}}', 'Continue Verify Email')
-  )
+// Thông tin đơn hàng đưa vào email, được lưu cùng job nên chỉ gồm các giá trị đơn giản
+export type OrderEmailSummary = {
+  orderId: string
+  status: OrderStatus
+  items: {
+    name: string
+    quantity: number
+    unitPrice: number
+  }[]
+  totalAmount: number
+  totalAmountReduced: number
+  totalPayment: number
 }
 
-export const sendForgotPasswordEmail = async (toAddress: string, forgotPasswordToken: string) => {
-  return sendMail(
-    toAddress,
-    'Reset Your Password',
-    emailTemplate
-      .replace('{{title}}', 'Reset Your Password')
-      .replace(
-        '{{content}}',
-        `<p>If you are an account registrant at <a href='${ENV_CONFIG.CLIENT_URL}'>NAEE</a>, please click on the link below to reset your password.</p><p>If you are not the account creator, please ignore this email and do not click on the link below.</p>`
-      )
-      .replace('{{link}}', `${ENV_CONFIG.CLIENT_URL}/reset-password?token=${forgotPasswordToken}`)
-      .replace('{{linkText}}', 'Continue Reset Password')
-  )
+const orderStatusTitles: Record<OrderStatus, string> = {
+  [OrderStatus.WaitForConfirmation]: 'Your Order Has Been Placed',
+  [OrderStatus.Confirmed]: 'Your Order Has Been Confirmed',
+  [OrderStatus.BeingTransported]: 'Your Order Is On The Way',
+  [OrderStatus.Accomplished]: 'Your Order Has Been Delivered',
+  [OrderStatus.Cancelled]: 'Your Order Has Been Cancelled'
+}
+
+const formatPrice = (value: number) => {
+  return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value)
+}
+
+// Bảng sản phẩm và tổng tiền của đơn hàng, tên sản phẩm được escape vì do người quản trị nhập
+const renderOrderSummary = ({ items, totalAmount, totalAmountReduced, totalPayment }: OrderEmailSummary) => {
+  const cellStyle = 'padding: 8px 0; border-bottom: 1px solid #d4dadf'
+  const rows = items
+    .map(
+      ({ name, quantity, unitPrice }) =>
+        `<tr><td style="${cellStyle}">${escape(name)} x ${quantity}</td><td align="right" style="${cellStyle}">${formatPrice(unitPrice * quantity)}</td></tr>`
+    )
+    .join('')
+  const totals = [
+    ['Subtotal', formatPrice(totalAmount)],
+    ['Discount', `-${formatPrice(totalAmountReduced)}`],
+    ['<strong>Total</strong>', `<strong>${formatPrice(totalPayment)}</strong>`]
+  ]
+    .map(([label, value]) => `<tr><td style="padding: 4px 0">${label}</td><td align="right">${value}</td></tr>`)
+    .join('')
+  return `<table border="0" cellpadding="0" cellspacing="0" width="100%">${rows}${totals}</table>`
+}
+
+// Đăng ký các mẫu email, mỗi mẫu quy định tiêu đề và nội dung đổ vào layout templates/email.html
+export const emailTemplates = {
+  verifyEmail: defineTemplate<{ verifyEmailToken: string }>({
+    subject: 'Verify Your Email',
+    render: ({ verifyEmailToken }) => ({
+      title: 'Confirm Your Email Address',
+      content: `Tap the button below to confirm your email address. If you didn't create an account with
+        <a href="${ENV_CONFIG.CLIENT_URL}">NAEE</a>, you can safely delete this email.`,
+      link: `${ENV_CONFIG.CLIENT_URL}/verify-email?token=${verifyEmailToken}`,
+      linkText: 'Continue Verify Email'
+    })
+  }),
+  forgotPassword: defineTemplate<{ forgotPasswordToken: string }>({
+    subject: 'Reset Your Password',
+    render: ({ forgotPasswordToken }) => ({
+      title: 'Reset Your Password',
+      content: `<p>If you are an account registrant at <a href='${ENV_CONFIG.CLIENT_URL}'>NAEE</a>, please click on the link below to reset your password.</p><p>If you are not the account creator, please ignore this email and do not click on the link below.</p>`,
+      link: `${ENV_CONFIG.CLIENT_URL}/reset-password?token=${forgotPasswordToken}`,
+      linkText: 'Continue Reset Password'
+    })
+  }),
+  orderConfirmation: defineTemplate<{ order: OrderEmailSummary }>({
+    subject: 'Order Confirmation',
+    render: ({ order }) => ({
+      title: orderStatusTitles[OrderStatus.WaitForConfirmation],
+      content: `<p>Thank you for shopping at <a href="${ENV_CONFIG.CLIENT_URL}">NAEE</a>. We have received your order #${order.orderId} and will confirm it shortly.</p>${renderOrderSummary(order)}`,
+      link: `${ENV_CONFIG.CLIENT_URL}/orders/${order.orderId}`,
+      linkText: 'View Order'
+    })
+  }),
+  orderStatusChanged: defineTemplate<{ order: OrderEmailSummary; note?: string }>({
+    subject: 'Your Order Has Been Updated',
+    render: ({ order, note }) => ({
+      title: orderStatusTitles[order.status],
+      content: `<p>The status of your order #${order.orderId} has been updated.</p>${note ? `<p>Note: ${escape(note)}</p>` : ''}${renderOrderSummary(order)}`,
+      link: `${ENV_CONFIG.CLIENT_URL}/orders/${order.orderId}`,
+      linkText: 'View Order'
+    })
+  })
+}
+
+type EmailTemplates = typeof emailTemplates
+export type EmailTemplateName = keyof EmailTemplates
+export type EmailTemplateData<K extends EmailTemplateName> = Parameters<EmailTemplates[K]['render']>[0]
+
+export const sendTemplateEmail = async <K extends EmailTemplateName>({
+  template,
+  toAddress,
+  data
+}: {
+  template: K
+  toAddress: string
+  data: EmailTemplateData<K>
+}) => {
+  const { subject, render } = emailTemplates[template] as EmailTemplate<EmailTemplateData<K>>
+  await mailTransport.send({
+    from: ENV_CONFIG.MAIL_FROM_ADDRESS || ENV_CONFIG.AWS_SES_FROM_ADDRESS,
+    to: toAddress,
+    subject,
+    html: renderLayout(render(data))
+  })
 }
@@ -0,0 +1,119 @@
+import { SendEmailCommand, SESClient } from '@aws-sdk/client-ses'
+import { randomBytes } from 'crypto'
+import fs from 'fs'
+import nodemailer, { Transporter } from 'nodemailer'
+import path from 'path'
+
+import { ENV_CONFIG } from '~/constants/config'
+import { MAIL_OUTBOX_DIR } from '~/constants/dir'
+import { MailTransportType } from '~/constants/enum'
+
+export type MailMessage = {
+  from: string
+  to: string
+  subject: string
+  html: string
+}
+
+export interface MailTransport {
+  type: MailTransportType
+  send: (message: MailMessage) => Promise<void>
+}
+
+const createSesTransport = (): MailTransport => {
+  // Chỉ khởi tạo client khi gửi email đầu tiên để môi trường không có AWS vẫn chạy được
+  let sesClient: SESClient | null = null
+  return {
+    type: MailTransportType.Ses,
+    send: async ({ from, to, subject, html }) => {
+      if (!sesClient) {
+        sesClient = new SESClient({
+          region: ENV_CONFIG.AWS_REGION,
+          credentials: {
+            secretAccessKey: ENV_CONFIG.AWS_SECRET_ACCESS_KEY,
+            accessKeyId: ENV_CONFIG.AWS_ACCESS_KEY_ID
+          }
+        })
+      }
+      await sesClient.send(
+        new SendEmailCommand({
+          Destination: {
+            ToAddresses: [to]
+          },
+          Message: {
+            Body: {
+              Html: {
+                Charset: 'UTF-8',
+                Data: html
+              }
+            },
+            Subject: {
+              Charset: 'UTF-8',
+              Data: subject
+            }
+          },
+          Source: from
+        })
+      )
+    }
+  }
+}
+
+const createSmtpTransport = (): MailTransport => {
+  let transporter: Transporter | null = null
+  return {
+    type: MailTransportType.Smtp,
+    send: async (message) => {
+      if (!transporter) {
+        const secure = ENV_CONFIG.SMTP_SECURE === 'true'
+        transporter = nodemailer.createTransport({
+          host: ENV_CONFIG.SMTP_HOST,
+          port: Number(ENV_CONFIG.SMTP_PORT) || (secure ? 465 : 587),
+          secure,
+          // Không gửi thông tin đăng nhập khi server không hỗ trợ STARTTLS
+          requireTLS: Boolean(ENV_CONFIG.SMTP_USERNAME),
+          auth: ENV_CONFIG.SMTP_USERNAME
+            ? {
+                user: ENV_CONFIG.SMTP_USERNAME,
+                pass: ENV_CONFIG.SMTP_PASSWORD
+              }
+            : undefined
+        })
+      }
+      await transporter.sendMail(message)
+    }
+  }
+}
+
+// Lưu email vào thư mục outbox dưới dạng file html thay vì gửi đi, dùng khi phát triển
+const createFileTransport = (): MailTransport => ({
+  type: MailTransportType.File,
+  send: async ({ from, to, subject, html }) => {
+    await fs.promises.mkdir(MAIL_OUTBOX_DIR, { recursive: true })
+    const filename = `${Date.now()}-${randomBytes(4).toString('hex')}.html`
+    const headers = `<!--\nFrom: ${from}\nTo: ${to}\nSubject: ${subject}\n-->\n`
+    await fs.promises.writeFile(path.resolve(MAIL_OUTBOX_DIR, filename), headers + html)
+  }
+})
+
+// Giữ email trong bộ nhớ, dùng khi kiểm thử
+export const memoryOutbox: (MailMessage & { sentAt: Date })[] = []
+
+const createMemoryTransport = (): MailTransport => ({
+  type: MailTransportType.Memory,
+  send: async (message) => {
+    memoryOutbox.push({ ...message, sentAt: new Date() })
+  }
+})
+
+const mailTransportFactories: Record<MailTransportType, () => MailTransport> = {
+  [MailTransportType.Ses]: createSesTransport,
+  [MailTransportType.Smtp]: createSmtpTransport,
+  [MailTransportType.File]: createFileTransport,
+  [MailTransportType.Memory]: createMemoryTransport
+}
+
+// Mặc định dùng SES để giữ nguyên hành vi cũ khi chưa cấu hình MAIL_TRANSPORT
+export const mailTransport = (
+  mailTransportFactories[ENV_CONFIG.MAIL_TRANSPORT as MailTransportType] || createSesTransport
+)()
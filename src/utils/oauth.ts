@@ -0,0 +1,137 @@
+import { ENV_CONFIG } from '~/constants/config'
+import { SocialProvider } from '~/constants/enum'
+
+export type OAuthProfile = {
+  providerUserId: string
+  email: string
+  // Chỉ liên kết hoặc tạo tài khoản khi nhà cung cấp xác nhận email đã được xác minh
+  emailVerified: boolean
+  fullName: string
+}
+
+export interface OAuthProvider {
+  name: SocialProvider
+  isAvailable: boolean
+  getAuthorizationUrl: (state: string) => string
+  // Đổi authorization code lấy access token rồi lấy thông tin người dùng từ nhà cung cấp
+  getProfile: (code: string) => Promise<OAuthProfile>
+}
+
+// Các endpoint được truyền vào khi tạo provider để có thể trỏ tới server giả lập khi kiểm thử
+export type OAuthProviderConfig = {
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+  authorizationUrl: string
+  tokenUrl: string
+  userInfoUrl: string
+}
+
+const requestJson = async <T>(url: string, init?: RequestInit) => {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    throw new Error(`OAuth request to ${url} failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+export const createGoogleProvider = (config: OAuthProviderConfig): OAuthProvider => ({
+  name: SocialProvider.Google,
+  isAvailable: Boolean(config.clientId && config.clientSecret),
+  getAuthorizationUrl: (state) => {
+    const query = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      response_type: 'code',
+      scope: 'openid email profile',
+      state
+    }).toString()
+    return `${config.authorizationUrl}?${query}`
+  },
+  getProfile: async (code) => {
+    const { access_token } = await requestJson<{ access_token: string }>(config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        code,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        redirect_uri: config.redirectUri,
+        grant_type: 'authorization_code'
+      }).toString()
+    })
+    const profile = await requestJson<{ sub: string; email?: string; email_verified?: boolean; name?: string }>(
+      config.userInfoUrl,
+      {
+        headers: {
+          Authorization: `Bearer ${access_token}`
+        }
+      }
+    )
+    return {
+      providerUserId: profile.sub,
+      email: profile.email || '',
+      emailVerified: profile.email_verified === true,
+      fullName: profile.name || ''
+    }
+  }
+})
+
+export const createFacebookProvider = (config: OAuthProviderConfig): OAuthProvider => ({
+  name: SocialProvider.Facebook,
+  isAvailable: Boolean(config.clientId && config.clientSecret),
+  getAuthorizationUrl: (state) => {
+    const query = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      response_type: 'code',
+      scope: 'email,public_profile',
+      state
+    }).toString()
+    return `${config.authorizationUrl}?${query}`
+  },
+  getProfile: async (code) => {
+    const tokenQuery = new URLSearchParams({
+      code,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      redirect_uri: config.redirectUri
+    }).toString()
+    const { access_token } = await requestJson<{ access_token: string }>(`${config.tokenUrl}?${tokenQuery}`)
+    const profileQuery = new URLSearchParams({
+      fields: 'id,name,email',
+      access_token
+    }).toString()
+    const profile = await requestJson<{ id: string; email?: string; name?: string }>(
+      `${config.userInfoUrl}?${profileQuery}`
+    )
+    // Facebook chỉ trả về email đã được người dùng xác nhận
+    return {
+      providerUserId: profile.id,
+      email: profile.email || '',
+      emailVerified: Boolean(profile.email),
+      fullName: profile.name || ''
+    }
+  }
+})
+
+export const oauthProviders: Record<SocialProvider, OAuthProvider> = {
+  [SocialProvider.Google]: createGoogleProvider({
+    clientId: ENV_CONFIG.GOOGLE_CLIENT_ID,
+    clientSecret: ENV_CONFIG.GOOGLE_CLIENT_SECRET,
+    redirectUri: ENV_CONFIG.GOOGLE_REDIRECT_URI,
+    authorizationUrl: ENV_CONFIG.GOOGLE_AUTHORIZATION_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: ENV_CONFIG.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    userInfoUrl: ENV_CONFIG.GOOGLE_USER_INFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo'
+  }),
+  [SocialProvider.Facebook]: createFacebookProvider({
+    clientId: ENV_CONFIG.FACEBOOK_CLIENT_ID,
+    clientSecret: ENV_CONFIG.FACEBOOK_CLIENT_SECRET,
+    redirectUri: ENV_CONFIG.FACEBOOK_REDIRECT_URI,
+    authorizationUrl: ENV_CONFIG.FACEBOOK_AUTHORIZATION_URL || 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenUrl: ENV_CONFIG.FACEBOOK_TOKEN_URL || 'https://graph.facebook.com/v19.0/oauth/access_token',
+    userInfoUrl: ENV_CONFIG.FACEBOOK_USER_INFO_URL || 'https://graph.facebook.com/v19.0/me'
+  })
+}
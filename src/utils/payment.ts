@@ -0,0 +1,200 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { WithId } from 'mongodb'
+
+import { ENV_CONFIG, isProduction } from '~/constants/config'
+import { PaymentMethod } from '~/constants/enum'
+import { PAYMENT_MESSAGES } from '~/constants/message'
+import { ErrorWithStatus } from '~/models/Errors'
+import Payment from '~/models/schemas/Payment.schema'
+
+export type PaymentCallbackResult = {
+  paymentId: string
+  transactionId: string
+  amount: number
+  isSuccess: boolean
+}
+
+// Kết quả xử lý callback: lỗi (nếu có) hoặc lượt thanh toán đã được xử lý từ trước hay chưa
+export type PaymentCallbackOutcome = {
+  error?: unknown
+  isAlreadyHandled?: boolean
+}
+
+// Đổi số tiền sang đơn vị nhỏ nhất (x100) dưới dạng số nguyên để gửi cho cổng thanh toán và so sánh
+export const toMinorUnits = (amount: number) => Math.round(amount * 100)
+
+export interface PaymentProvider {
+  // Tên của cổng thanh toán trên đường dẫn webhook, ví dụ: /payments/webhook/vnpay
+  name: string
+  isAvailable: boolean
+  // Trả về null khi phương thức thanh toán không cần chuyển hướng người dùng (COD)
+  createPaymentUrl: ({ payment, ipAddress }: { payment: WithId<Payment>; ipAddress: string }) => string | null
+  // Trả về null khi chữ ký không hợp lệ
+  verifyCallback: (params: Record<string, string>) => PaymentCallbackResult | null
+  // Cổng thanh toán yêu cầu phản hồi theo định dạng riêng (kể cả khi lỗi) thay cho định dạng chung { message, data }
+  formatCallbackResponse?: (outcome: PaymentCallbackOutcome) => Record<string, string>
+}
+
+const hmac = ({ algorithm, secret, content }: { algorithm: string; secret: string; content: string }) => {
+  return createHmac(algorithm, secret).update(content, 'utf-8').digest('hex')
+}
+
+const isSameSignature = (signature: string, expectedSignature: string) => {
+  const signatureBuffer = Buffer.from(signature.toLowerCase())
+  const expectedSignatureBuffer = Buffer.from(expectedSignature)
+  return (
+    signatureBuffer.length === expectedSignatureBuffer.length &&
+    timingSafeEqual(signatureBuffer, expectedSignatureBuffer)
+  )
+}
+
+const buildSortedQuery = (params: Record<string, string>) => {
+  const sortedEntries = Object.keys(params)
+    .sort()
+    .map((key) => [key, params[key]])
+  return new URLSearchParams(sortedEntries).toString()
+}
+
+// VNPay yêu cầu thời gian theo định dạng yyyyMMddHHmmss ở múi giờ GMT+7
+const formatVnpayDate = (date: Date) => {
+  const vnDate = new Date(date.getTime() + 7 * 60 * 60 * 1000)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return (
+    String(vnDate.getUTCFullYear()) +
+    pad(vnDate.getUTCMonth() + 1) +
+    pad(vnDate.getUTCDate()) +
+    pad(vnDate.getUTCHours()) +
+    pad(vnDate.getUTCMinutes()) +
+    pad(vnDate.getUTCSeconds())
+  )
+}
+
+// Mã phản hồi IPN theo tài liệu của VNPay, VNPay sẽ gọi lại IPN nếu không nhận được RspCode hợp lệ
+const vnpayErrorResponseCodes: Record<string, string> = {
+  [PAYMENT_MESSAGES.PAYMENT_SIGNATURE_IS_INVALID]: '97',
+  [PAYMENT_MESSAGES.PAYMENT_NOT_FOUND]: '01',
+  [PAYMENT_MESSAGES.PAYMENT_AMOUNT_IS_INVALID]: '04'
+}
+
+const codProvider: PaymentProvider = {
+  name: 'cod',
+  isAvailable: true,
+  createPaymentUrl: () => null,
+  verifyCallback: () => null
+}
+
+const vnpayProvider: PaymentProvider = {
+  name: 'vnpay',
+  isAvailable: Boolean(ENV_CONFIG.VNPAY_TMN_CODE && ENV_CONFIG.VNPAY_HASH_SECRET),
+  createPaymentUrl: ({ payment, ipAddress }) => {
+    const query = buildSortedQuery({
+      vnp_Version: '2.1.0',
+      vnp_Command: 'pay',
+      vnp_TmnCode: ENV_CONFIG.VNPAY_TMN_CODE,
+      vnp_Locale: 'vn',
+      vnp_CurrCode: 'VND',
+      vnp_TxnRef: payment._id.toString(),
+      vnp_OrderInfo: `Thanh toan don hang ${payment.orderId.toString()}`,
+      vnp_OrderType: 'other',
+      vnp_Amount: String(toMinorUnits(payment.amount)),
+      vnp_ReturnUrl: ENV_CONFIG.VNPAY_RETURN_URL,
+      vnp_IpAddr: ipAddress,
+      vnp_CreateDate: formatVnpayDate(payment.createdAt)
+    })
+    const secureHash = hmac({ algorithm: 'sha512', secret: ENV_CONFIG.VNPAY_HASH_SECRET, content: query })
+    return `${ENV_CONFIG.VNPAY_PAYMENT_URL}?${query}&vnp_SecureHash=${secureHash}`
+  },
+  verifyCallback: (params) => {
+    const { vnp_SecureHash, ...rest } = params
+    if (!vnp_SecureHash) return null
+    const signedParams = Object.keys(rest)
+      .filter((key) => key.startsWith('vnp_') && key !== 'vnp_SecureHashType')
+      .reduce<Record<string, string>>((acc, key) => ({ ...acc, [key]: rest[key] }), {})
+    const expectedSignature = hmac({
+      algorithm: 'sha512',
+      secret: ENV_CONFIG.VNPAY_HASH_SECRET,
+      content: buildSortedQuery(signedParams)
+    })
+    if (!isSameSignature(vnp_SecureHash, expectedSignature)) return null
+    return {
+      paymentId: rest.vnp_TxnRef,
+      transactionId: rest.vnp_TransactionNo,
+      amount: Number(rest.vnp_Amount) / 100,
+      isSuccess: rest.vnp_ResponseCode === '00' && rest.vnp_TransactionStatus === '00'
+    }
+  },
+  formatCallbackResponse: ({ error, isAlreadyHandled }) => {
+    if (error instanceof ErrorWithStatus && vnpayErrorResponseCodes[error.message]) {
+      return { RspCode: vnpayErrorResponseCodes[error.message], Message: error.message }
+    }
+    if (error) {
+      return { RspCode: '99', Message: 'Unknown error' }
+    }
+    if (isAlreadyHandled) {
+      return { RspCode: '02', Message: 'Order already confirmed' }
+    }
+    return { RspCode: '00', Message: 'Confirm Success' }
+  }
+}
+
+// Cổng thanh toán giả lập để kiểm thử khi không có kết nối tới cổng thật, không dùng ở môi trường production
+export const signFakePaymentCallback = ({
+  paymentId,
+  transactionId,
+  amount,
+  status
+}: {
+  paymentId: string
+  transactionId: string
+  amount: number
+  status: 'success' | 'failed'
+}) => {
+  return hmac({
+    algorithm: 'sha256',
+    secret: ENV_CONFIG.FAKE_PAYMENT_SECRET,
+    content: [paymentId, transactionId, amount, status].join('|')
+  })
+}
+
+const fakeProvider: PaymentProvider = {
+  name: 'fake',
+  isAvailable: !isProduction,
+  // Đường dẫn chuyển hướng gọi thẳng vào webhook, giả lập việc người dùng thanh toán thành công
+  createPaymentUrl: ({ payment }) => {
+    const params = {
+      paymentId: payment._id.toString(),
+      transactionId: `FAKE${Date.now()}`,
+      amount: payment.amount,
+      status: 'success' as const
+    }
+    const query = new URLSearchParams({
+      ...params,
+      amount: String(params.amount),
+      signature: signFakePaymentCallback(params)
+    }).toString()
+    return `${ENV_CONFIG.HOST}/payments/webhook/fake?${query}`
+  },
+  verifyCallback: (params) => {
+    const { paymentId, transactionId, amount, status, signature } = params
+    if (!signature || (status !== 'success' && status !== 'failed')) return null
+    const expectedSignature = signFakePaymentCallback({ paymentId, transactionId, amount: Number(amount), status })
+    if (!isSameSignature(signature, expectedSignature)) return null
+    return {
+      paymentId,
+      transactionId,
+      amount: Number(amount),
+      isSuccess: status === 'success'
+    }
+  }
+}
+
+export const paymentProviders: Record<PaymentMethod, PaymentProvider> = {
+  [PaymentMethod.Cod]: codProvider,
+  [PaymentMethod.VnPay]: vnpayProvider,
+  [PaymentMethod.Fake]: fakeProvider
+}
+
+export const getPaymentMethodByProviderName = (name: string) => {
+  const entry = Object.entries(paymentProviders).find(([, provider]) => provider.name === name)
+  return entry ? (Number(entry[0]) as PaymentMethod) : null
+}
@@ -0,0 +1,44 @@
+export type RateLimitCounter = {
+  count: number
+  resetAt: Date
+}
+
+// Nơi lưu bộ đếm của rate limiter, mặc định lưu trong bộ nhớ của tiến trình
+// Khi chạy nhiều tiến trình có thể cài đặt bằng Redis: INCR key, PEXPIRE key windowMs NX, PTTL key để tính resetAt
+export interface RateLimitStore {
+  // Tăng bộ đếm của khoá, bộ đếm được đặt lại sau windowMs (ms) kể từ lần tăng đầu tiên
+  increment: (key: string, windowMs: number) => Promise<RateLimitCounter>
+  reset: (key: string) => Promise<void>
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>()
+
+  constructor({ cleanupInterval = 60 * 1000 }: { cleanupInterval?: number } = {}) {
+    // Dọn các bộ đếm đã hết hạn, unref để không giữ tiến trình chạy
+    setInterval(() => {
+      const now = Date.now()
+      this.counters.forEach((counter, key) => {
+        if (counter.resetAt.getTime() <= now) {
+          this.counters.delete(key)
+        }
+      })
+    }, cleanupInterval).unref()
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now()
+    const counter = this.counters.get(key)
+    if (!counter || counter.resetAt.getTime() <= now) {
+      const newCounter = { count: 1, resetAt: new Date(now + windowMs) }
+      this.counters.set(key, newCounter)
+      return { ...newCounter }
+    }
+    counter.count += 1
+    return { ...counter }
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key)
+  }
+}
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// TOTP theo RFC 6238 với tham số mặc định mà các ứng dụng xác thực (Google Authenticator, Authy...) hỗ trợ
+const TOTP_PERIOD = 30
+const TOTP_DIGITS = 6
+const TOTP_ALGORITHM = 'SHA1'
+// Chấp nhận mã của bước thời gian liền trước và liền sau để bù sai lệch đồng hồ
+const TOTP_WINDOW = 1
+const TOTP_SECRET_LENGTH = 20
+const RECOVERY_CODE_COUNT = 10
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = ''
+  buffer.forEach((byte) => {
+    bits += byte.toString(2).padStart(8, '0')
+  })
+  let result = ''
+  for (let i = 0; i < bits.length; i += 5) {
+    result += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)]
+  }
+  return result
+}
+
+const base32Decode = (value: string) => {
+  let bits = ''
+  value
+    .toUpperCase()
+    .replace(/=+$/, '')
+    .split('')
+    .forEach((char) => {
+      const index = BASE32_ALPHABET.indexOf(char)
+      if (index !== -1) {
+        bits += index.toString(2).padStart(5, '0')
+      }
+    })
+  const bytes: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2))
+  }
+  return Buffer.from(bytes)
+}
+
+const generateHotp = (secret: string, counter: number) => {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+  const digest = createHmac(TOTP_ALGORITHM.toLowerCase(), base32Decode(secret)).update(counterBuffer).digest()
+  const offset = digest[digest.length - 1] & 0xf
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+export const getTotpStep = (date = new Date()) => {
+  return Math.floor(date.getTime() / 1000 / TOTP_PERIOD)
+}
+
+export const generateTotpSecret = () => {
+  return base32Encode(randomBytes(TOTP_SECRET_LENGTH))
+}
+
+// Đường dẫn otpauth:// để phía client hiển thị thành mã QR cho ứng dụng xác thực quét
+export const getTotpProvisioningUri = ({
+  secret,
+  accountName,
+  issuer
+}: {
+  secret: string
+  accountName: string
+  issuer: string
+}) => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const query = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: TOTP_ALGORITHM,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD)
+  }).toString()
+  return `otpauth://totp/${label}?${query}`
+}
+
+// Trả về bước thời gian của mã hợp lệ, null khi mã không hợp lệ
+export const verifyTotp = ({ secret, code }: { secret: string; code: string }) => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null
+  const currentStep = getTotpStep()
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    const expectedCode = Buffer.from(generateHotp(secret, step))
+    if (timingSafeEqual(expectedCode, Buffer.from(code))) {
+      return step
+    }
+  }
+  return null
+}
+
+// Mã khôi phục dạng xxxxx-xxxxx, mỗi mã chỉ dùng được một lần
+export const generateRecoveryCodes = () => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
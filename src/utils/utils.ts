@@ -1,4 +1,8 @@
+import { Request } from 'express'
+
+import { ProductDiscountType } from '~/constants/enum'
 import { PaginationReqQuery } from '~/models/requests/Common.requests'
+import { ClientDevice } from '~/models/requests/User.requests'
 
 export const numberEnumToArray = (numberEnum: { [key: string]: string | number }) => {
   return Object.values(numberEnum).filter((item) => typeof item === 'number') as number[]
@@ -15,3 +19,47 @@ export const paginationConfig = (query: PaginationReqQuery) => {
     skip
   }
 }
+
+export const getPriceAfterDiscount = ({
+  price,
+  discountType,
+  discountValue
+}: {
+  price: number
+  discountType?: ProductDiscountType
+  discountValue?: number
+}) => {
+  // Làm tròn xuống số tiền được giảm để giá luôn là số nguyên (VND)
+  if (discountType === ProductDiscountType.Percent) {
+    return price - Math.floor((price * (discountValue || 0)) / 100)
+  }
+  return price - (discountValue || 0)
+}
+
+// Tạo slug từ tên, bỏ dấu tiếng Việt: "Áo sơ mi nữ" -> "ao-so-mi-nu"
+export const slugify = (value: string) => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Giá thấp nhất và tổng tồn kho của các phiên bản, null khi sản phẩm không có phiên bản
+export const getVariantsSummary = (variants: { price: number; availableCount: number }[]) => {
+  if (variants.length === 0) return null
+  return {
+    price: Math.min(...variants.map(({ price }) => price)),
+    availableCount: variants.reduce((acc, { availableCount }) => acc + availableCount, 0)
+  }
+}
+
+export const getClientDevice = (req: Request): ClientDevice => {
+  return {
+    userAgent: req.headers['user-agent'] || '',
+    ipAddress: req.ip || ''
+  }
+}